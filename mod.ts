@@ -5,5 +5,12 @@ export { default as EscrowTopicManager } from './src/topic-managers/EscrowTopicM
 export { default as Seeker } from './src/entities/Seeker.js'
 export { default as Furnisher } from './src/entities/Furnisher.js'
 export { default as Platform } from './src/entities/Platform.js'
+export { default as Backer } from './src/entities/Backer.js'
+export { default as Panel } from './src/entities/Panel.js'
+export type { DisputeMessenger } from './src/messaging/DisputeMessenger.js'
+export { default as InMemoryDisputeMessenger } from './src/messaging/InMemoryDisputeMessenger.js'
+export { default as HttpDisputeMessenger } from './src/messaging/HttpDisputeMessenger.js'
+export type { ContentStore } from './src/content/ContentStore.js'
+export { default as FileSystemContentStore } from './src/content/FileSystemContentStore.js'
 export * from './src/constants.js'
 export * from './src/utils.js'
@@ -1,5 +1,6 @@
 import { BEEF, PubKeyHex, WalletNetwork, WalletProtocol } from "@bsv/sdk"
-import { EscrowContract } from "mod.js"
+import type { Bid as ContractBid, EscrowContract } from './contracts/Escrow.js'
+import type { ByteString, Sig } from 'scrypt-ts'
 
 export interface Bid {
     furnisherKey: string
@@ -8,6 +9,98 @@ export interface Bid {
     bond: number
     timeOfBid: number
     timeRequired: number
+    validUntil?: number // Lock time after which the offer can no longer be accepted, absent or zero if it never expires
+    expired?: boolean // Set on bids in a contract's slots when it is listed after they have expired
+}
+
+/**
+ * A file that belongs with a WorkSpec, referred to by the SHA-256 of its content so it
+ * can be kept anywhere and still be checked.
+ */
+export interface WorkAttachment {
+  name: string
+  hash: string // Hex SHA-256 of the file content
+  mediaType?: string
+}
+
+/**
+ * A structured description of work to be done, or of the work delivered. Contracts carry
+ * it encoded as versioned JSON in place of a plain text description.
+ */
+export interface WorkSpec {
+  version: 1
+  title: string
+  body: string
+  tags: string[]
+  category?: string
+  acceptanceCriteria: string[]
+  attachments: WorkAttachment[]
+}
+
+/**
+ * Content kept off-chain in a ContentStore. The contract carries only this commitment in
+ * place of the content itself.
+ */
+export interface ContentCommitment {
+  sha256: string // Hex SHA-256 of the content
+}
+
+/**
+ * What a contract's descriptions and bid plans stand for once any kept in a ContentStore
+ * have been fetched, in the encoding the contract would carry them inline.
+ */
+export interface ResolvedContent {
+  workDescription: string
+  workCompletionDescription: string
+  bidPlans: string[] // For each of the contract's bids, in order
+  acceptedBidPlans: string
+}
+
+/**
+ * One stage of a milestone contract. Approving it releases its amount to the furnisher,
+ * except for the last milestone, which resolves the contract with whatever remains.
+ */
+export interface Milestone {
+  amount: number
+  deadline: number
+}
+
+/**
+ * The furnishers invited to bid on a contract. An inline list of up to 4 keys is kept in
+ * the contract itself. A longer list, of up to 256 keys, is committed as a Merkle root,
+ * and each furnisher needs their AllowListProof to bid.
+ */
+export interface AllowList {
+  furnisherKeys: string[]
+  commitment: 'inline' | 'merkle'
+}
+
+export interface AllowListProof {
+  siblings: string[] // Hex sibling hashes from the leaf up, empty where a node had no pair
+  index: number // Position of the furnisher's key in the list
+}
+
+/**
+ * The windows of a sealed-bid auction. Furnishers commit to hidden bids until the commit
+ * deadline, then reveal them until the reveal deadline. Bids still sealed after that are
+ * discarded, and only revealed bids can be accepted.
+ */
+export interface SealedBidding {
+  commitDeadline: number
+  revealDeadline: number
+}
+
+/**
+ * What a furnisher keeps after committing to a sealed bid. The contract only holds a
+ * hash of the bid and salt, so both are needed again to reveal it.
+ */
+export interface SealedBid {
+  bid: Bid
+  salt: string // Hex
+}
+
+export interface MilestoneProgress extends Milestone {
+  status: 'released' | 'submitted' | 'in-progress' | 'pending'
 }
 
 export interface EscrowRecord {
@@ -29,15 +122,125 @@ export interface EscrowRecord {
   contractSurvivesAdverseFurnisherDisputeResolution: boolean
   bountyIncreaseAllowanceMode: 'forbidden' | 'by-seeker' | 'by-platform' | 'by-seeker-or-platform' | 'by-anyone'
   bountyIncreaseCutoffPoint: 'bid-acceptance' | 'start-of-work' | 'submission-of-work' | 'acceptance-of-work'
+  abandonedWorkRefundAllowed: boolean
+  abandonedWorkGracePeriod: number
+  approvalTimeoutReleasesPayment: boolean
+  evidencePeriod: number
+  panelKeys: string[] // Empty unless disputes are decided by an arbiter panel
+  panelThreshold: number
+  appealKey: string
+  appealPeriod: number // Zero when rulings are final right away
+  milestones: MilestoneProgress[] // Empty for single-deliverable contracts
+  milestonesReleased: number
+  allowedFurnishers: string[] // Inline allow-list, empty when there is none
+  allowListRoot: string // Merkle root of a larger allow-list, empty when there is none
+  sealedBidding: boolean
+  commitDeadline: number // Zero unless bids are sealed
+  revealDeadline: number
+  bidCommitments: string[] // Hex commitment for each bid slot still sealed, empty otherwise
   bids: Array<Bid>
   seekerKey: string
   platformKey: string
   acceptedBid: Bid
   bidAcceptedBy: 'platform' | 'seeker' | 'not-yet-accepted'
   workCompletionTime: number
-  status: 'initial' | 'bid-accepted' | 'work-started' | 'work-submitted' | 'resolved' | 'disputed-by-seeker' | 'disputed-by-furnisher'
+  status: 'initial' | 'bid-accepted' | 'work-started' | 'work-submitted' | 'resolved' | 'disputed-by-seeker' | 'disputed-by-furnisher' |
+    'provisionally-resolved' | 'appealed-by-seeker' | 'appealed-by-furnisher' | 'revealing-bids' | 'bids-revealed'
   workDescription: string
   workCompletionDescription: string
+  workSpec?: WorkSpec // Decoded workDescription, absent when it is plain text
+  workCompletionSpec?: WorkSpec // Decoded workCompletionDescription, absent when it is plain text
+  content?: ResolvedContent // Filled in by entities, absent until any content kept off-chain is resolved
+  disputeTime: number
+  seekerEvidenceHash: string // Hex SHA-256 of the seeker's evidence bundle, empty until submitted
+  furnisherEvidenceHash: string // Hex SHA-256 of the furnisher's evidence bundle, empty until submitted
+  rulingTime: number // When a ruling that can still be appealed was made
+  rulingAmountForSeeker: number
+  rulingAmountForFurnisher: number
+}
+
+/**
+ * A bid kept outside the contract in its own PushDrop output, locked to and signed by
+ * the furnisher. Only the bid that gets accepted is ever written into the contract.
+ * Bids name the exact contract output they were made against, and the furnisher's
+ * signature covers that output, so a bid cannot be passed off as one on another contract.
+ * Accepting a bid also takes a BidAcceptanceAuthorization from its furnisher.
+ */
+export interface OffChainBidRecord {
+  txid: string
+  outputIndex: number
+  escrowTxid: string
+  escrowOutputIndex: number
+  bid: Bid
+  signature: string // The furnisher's signature over offChainBidMessage
+  allowListProof?: AllowListProof // Needed to accept bids on contracts with a Merkle allow-list
+}
+
+export interface OffChainBidTX {
+  record: OffChainBidRecord
+  beef: BEEF
+  script: string
+  satoshis: number
+}
+
+/**
+ * A backer's contribution to a crowdfunded bounty, kept in a PushDrop output locked to
+ * and signed by the backer, created in the same transaction that raises the bounty.
+ * The escrow outpoint names the contract version that was funded. The overlay lists
+ * contributions against every version of the contract, so any of them can be used to
+ * find them all.
+ */
+export interface ContributionRecord {
+  txid: string
+  outputIndex: number
+  escrowTxid: string
+  escrowOutputIndex: number
+  backerKey: string
+  amount: number
+}
+
+/**
+ * A party's commitment to its dispute evidence bundle. Only the hash lives in the
+ * contract, the bundle itself is exchanged off-chain and checked against it.
+ */
+export interface EvidenceCommitment {
+  party: 'seeker' | 'furnisher'
+  evidenceHash: string
+}
+
+/**
+ * Sent to a platform's inbox when a party raises a dispute, so the platform does not
+ * have to poll the overlay to find out about it.
+ */
+export interface DisputeMessage {
+  id: string
+  txid: string // The transaction that raised the dispute
+  outputIndex: number
+  role: 'seeker' | 'furnisher'
+  senderKey: string
+  evidence?: number[]
+  signature: string // The sender's signature over disputeMessageBytes, checked by the inbox
+  sentAt: number
+  acknowledged: boolean
+}
+
+/**
+ * The platform's own record of a dispute ruling, kept in its 'escrow-decisions' basket.
+ */
+export interface DisputeDecision {
+  escrowTxid: string
+  escrowOutputIndex: number
+  resolutionTxid: string
+  seekerKey: string
+  furnisherKey: string
+  outcome: 'seeker' | 'furnisher' | 'split'
+  reopened: boolean // The contract survived the ruling and went back to bidding
+  provisional: boolean // The ruling can still be appealed, and pays out once finalized
+  amountForSeeker: number
+  amountForFurnisher: number
+  platformFee: number
+  notes: string
+  decidedAt: number // Unix seconds
 }
 
 export interface EscrowTX {
@@ -48,11 +251,136 @@ export interface EscrowTX {
   satoshis: number
 }
 
+/**
+ * A platform signature allowing the accepted furnisher to start work on a contract
+ * that has platformAuthorizationRequired set. It is only valid for the exact contract
+ * output it was issued for.
+ */
+export interface StartOfWorkAuthorization {
+  txid: string
+  outputIndex: number
+  platformSignature: string
+}
+
+/**
+ * A furnisher signature allowing the seeker or the platform to accept their off-chain
+ * bid. It is only valid for the exact contract output it was issued for, and the
+ * acceptance has to be made with the same lock time.
+ */
+export interface BidAcceptanceAuthorization {
+  txid: string
+  outputIndex: number
+  acceptedBy: 'seeker' | 'platform'
+  lockTime: number
+  furnisherSignature: string
+}
+
+/**
+ * The name of a public contract method, as escrowPublicMethods lists it.
+ */
+export type EscrowPublicMethod = Extract<keyof EscrowContract, `${string}OnChain`>
+
+/**
+ * The name of a public contract method without its OnChain suffix, which is how the
+ * contract call helpers take it.
+ */
+export type EscrowMethodName = {
+  [M in EscrowPublicMethod]: M extends `${infer Name}OnChain` ? Name : never
+}[EscrowPublicMethod]
+
+/**
+ * A value passed to a contract method. Signatures and keys are byte strings, and fixed
+ * arrays are plain arrays.
+ */
+export type ContractCallValue = bigint | ByteString | ContractBid | ContractCallValue[]
+
+/**
+ * Signs a contract call once its preimage is known.
+ */
+export type ContractCallSignatory = (preimageHash: number[], scope: number) => Promise<Sig>
+
+/**
+ * A parameter to callContractMethod. Signatures can be left to a signatory, or given as
+ * 'WONTSIGN' when the method does not check them.
+ */
+export type ContractCallParam = ContractCallValue | ContractCallSignatory | 'WONTSIGN'
+
+/**
+ * A parameter to createPendingContractCall, which can also leave a signature slot open
+ * for another party.
+ */
+export type PendingContractCallInput =
+  | ContractCallParam
+  | { signerKey: string, optional?: boolean } // Optional slots are left empty if never signed
+  | PendingContractCallInput[]
+
+export type PendingContractCallParam =
+  | { type: 'bigint', value: string }
+  | { type: 'bytes', value: string }
+  | { type: 'signature', signerKey: string, signature?: string, optional?: boolean } // Optional slots are left empty if never signed
+  | { type: 'no-signature' }
+  | { type: 'array', items: PendingContractCallParam[] }
+
+/**
+ * A serializable contract call that is waiting on signatures from several parties.
+ * It is passed between them as JSON until every signature slot is filled.
+ */
+export interface PendingContractCall {
+  escrowTxid: string
+  escrowOutputIndex: number
+  methodName: EscrowMethodName
+  params: PendingContractCallParam[]
+  signableTransaction: string
+  sequenceNumber: number
+  createdBy: string // Paid the fee, and signed the fee input, when the call was created
+}
+
+/**
+ * One version of a contract in the overlay's archive. Each version is linked to the next
+ * by the transaction that spent it, which holds the next version at output 0 unless the
+ * contract was paid out.
+ */
+export interface EscrowVersionRecord extends EscrowRecord {
+  spendingTxid?: string // Absent while this is the latest version
+  spendingMethod?: string // The contract method the spending transaction called, such as 'acceptBid'
+}
+
 export interface UTXOReference {
   txid: string
   outputIndex: number
 }
 
+/**
+ * Inclusive bounds on a numeric field. Either end may be left open.
+ */
+export interface NumberRange {
+  min?: number
+  max?: number
+}
+
+/**
+ * A structured query for escrow contracts tracked by the lookup service. Every filter
+ * given must match. Results are sorted by deadline unless another order is asked for,
+ * and each page resumes after the cursor, which is the last result of the page before.
+ */
+export interface EscrowQuery {
+  status?: Array<EscrowRecord['status']>
+  contractType?: EscrowRecord['contractType']
+  bounty?: NumberRange // Satoshis held by the contract
+  bidAmount?: NumberRange // Amount of the accepted bid
+  deadline?: NumberRange // Work completion deadline
+  seekerKey?: string
+  furnisherKey?: string // Furnisher of the accepted bid
+  platformKey?: string
+  bondingMode?: EscrowRecord['furnisherBondingMode']
+  sort?: {
+    by: 'deadline' | 'bounty' | 'bidAmount'
+    direction?: 'asc' | 'desc'
+  }
+  cursor?: UTXOReference
+  limit?: number
+}
+
 /**
  * This is what all parties in the system need to agree about.
  * Potentially future versions will allow some deviations, but for now the assumption is:
@@ -76,9 +404,22 @@ export interface GlobalConfig {
   contractSurvivesAdverseFurnisherDisputeResolution: boolean
   bountyIncreaseAllowanceMode: 'forbidden' | 'by-seeker' | 'by-platform' | 'by-seeker-or-platform' | 'by-anyone'
   bountyIncreaseCutoffPoint: 'bid-acceptance' | 'start-of-work' | 'submission-of-work' | 'acceptance-of-work'
+  abandonedWorkRefundAllowed: boolean
+  abandonedWorkGracePeriod: number
+  approvalTimeoutReleasesPayment: boolean
+  evidencePeriod: number
   platformKey: PubKeyHex
   topic: string
   service: string
   keyDerivationProtocol: WalletProtocol
   networkPreset: 'mainnet' | 'testnet' | 'local'
+  bidMode: 'off-chain' | 'slots' // Off-chain bids are signed offers kept on the overlay, slots keeps bids in the contract itself
+  panel?: { // When set, m of these n arbiters (at most 5) decide disputes instead of the platform key alone
+    keys: PubKeyHex[]
+    threshold: number
+  }
+  appeals?: { // When set, rulings can be appealed to the arbiter key for this long before they pay out
+    arbiterKey: PubKeyHex
+    period: number
+  }
 }
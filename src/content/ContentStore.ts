@@ -0,0 +1,11 @@
+/**
+ * Keeps content that contracts only commit to by hash, such as large work specs, bid
+ * plans and deliverables.
+ *
+ * Implementations decide where the content lives. Whoever fetches content checks it
+ * against the hash it was asked for, so a store does not need to be trusted.
+ */
+export interface ContentStore {
+  put: (content: number[]) => Promise<string> // Resolves to the hex SHA-256 of the content
+  get: (hash: string) => Promise<number[]>
+}
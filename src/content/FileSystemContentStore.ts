@@ -0,0 +1,28 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { Hash, Utils } from '@bsv/sdk'
+import type { ContentStore } from './ContentStore.js'
+
+/**
+ * Reference ContentStore that keeps each piece of content in a file named after its
+ * SHA-256, for local use. Parties sharing content this way need to share the directory.
+ */
+export default class FileSystemContentStore implements ContentStore {
+  constructor (private readonly directory: string = './content') {}
+
+  async put (content: number[]): Promise<string> {
+    const hash = Utils.toHex(Hash.sha256(content))
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(join(this.directory, hash), Uint8Array.from(content))
+    return hash
+  }
+
+  async get (hash: string): Promise<number[]> {
+    if (!/^[0-9a-f]{64}$/.test(hash)) throw new Error(`Not a content hash: ${hash}`)
+    try {
+      return Array.from(await readFile(join(this.directory, hash)))
+    } catch (e) {
+      throw new Error(`No content ${hash} in this store`)
+    }
+  }
+}
@@ -10,7 +10,10 @@ import {
   Sig,
   Utils,
   hash160,
+  len,
   toByteString,
+  int2ByteString,
+  sha256,
   FixedArray,
   fill
 } from 'scrypt-ts'
@@ -22,6 +25,7 @@ export interface Bid {
   bond: bigint
   timeOfBid: bigint
   timeRequired: bigint
+  validUntil: bigint // Zero when the offer never expires
 }
 
 export class EscrowContract extends SmartContract {
@@ -37,6 +41,11 @@ export class EscrowContract extends SmartContract {
   static readonly STATUS_RESOLVED: bigint = 15n
   static readonly STATUS_DISPUTED_BY_SEEKER: bigint = 16n
   static readonly STATUS_DISPUTED_BY_FURNISHER: bigint = 17n
+  static readonly STATUS_PROVISIONALLY_RESOLVED: bigint = 18n
+  static readonly STATUS_APPEALED_BY_SEEKER: bigint = 19n
+  static readonly STATUS_APPEALED_BY_FURNISHER: bigint = 20n
+  static readonly STATUS_REVEALING_BIDS: bigint = 21n
+  static readonly STATUS_BIDS_REVEALED: bigint = 22n
 
   // Furnisher bonding modes
   static readonly FURNISHER_BONDING_MODE_FORBIDDEN: bigint = 31n
@@ -118,6 +127,60 @@ export class EscrowContract extends SmartContract {
   @prop(true)
     bountyIncreaseCutoffPoint: bigint
 
+  @prop(true)
+    abandonedWorkRefundAllowed: bigint
+
+  @prop(true)
+    abandonedWorkGracePeriod: bigint
+
+  @prop(true)
+    approvalTimeoutReleasesPayment: bigint
+
+  @prop(true)
+    evidencePeriod: bigint
+
+  @prop(true)
+    panelKeys: FixedArray<PubKey, 5>
+
+  @prop(true)
+    panelSize: bigint
+
+  @prop(true)
+    panelThreshold: bigint
+
+  @prop(true)
+    appealKey: PubKey
+
+  @prop(true)
+    appealPeriod: bigint
+
+  @prop(true)
+    milestoneAmounts: FixedArray<bigint, 5>
+
+  @prop(true)
+    milestoneDeadlines: FixedArray<bigint, 5>
+
+  @prop(true)
+    milestoneCount: bigint
+
+  @prop(true)
+    allowedFurnishers: FixedArray<PubKey, 4>
+
+  @prop(true)
+    allowedFurnisherCount: bigint
+
+  @prop(true)
+    allowListRoot: ByteString
+
+  @prop(true)
+    sealedBidding: bigint
+
+  @prop(true)
+    commitDeadline: bigint
+
+  @prop(true)
+    revealDeadline: bigint
+
   @prop(true)
     bids: FixedArray<Bid, 4>
 
@@ -145,6 +208,30 @@ export class EscrowContract extends SmartContract {
   @prop(true)
     workCompletionDescription: ByteString
 
+  @prop(true)
+    disputeTime: bigint
+
+  @prop(true)
+    seekerEvidenceHash: ByteString
+
+  @prop(true)
+    furnisherEvidenceHash: ByteString
+
+  @prop(true)
+    rulingTime: bigint
+
+  @prop(true)
+    rulingAmountForSeeker: bigint
+
+  @prop(true)
+    rulingAmountForFurnisher: bigint
+
+  @prop(true)
+    milestonesReleased: bigint
+
+  @prop(true)
+    bidCommitments: FixedArray<ByteString, 4>
+
   constructor (
     seekerKey: PubKey,
     platformKey: PubKey,
@@ -165,6 +252,24 @@ export class EscrowContract extends SmartContract {
     bountyIncreaseCutoffPoint: bigint = EscrowContract.INCREASE_CUTOFF_BID_ACCEPTANCE,
     contractType: bigint = EscrowContract.TYPE_BID,
     contractSurvivesAdverseFurnisherDisputeResolution: bigint = 0n,
+    abandonedWorkRefundAllowed: bigint = 0n,
+    abandonedWorkGracePeriod: bigint = 0n,
+    approvalTimeoutReleasesPayment: bigint = 0n,
+    evidencePeriod: bigint = 0n,
+    panelKeys: FixedArray<PubKey, 5> = fill(platformKey, 5),
+    panelSize: bigint = 0n,
+    panelThreshold: bigint = 0n,
+    appealKey: PubKey = platformKey,
+    appealPeriod: bigint = 0n,
+    milestoneAmounts: FixedArray<bigint, 5> = fill(0n, 5),
+    milestoneDeadlines: FixedArray<bigint, 5> = fill(0n, 5),
+    milestoneCount: bigint = 0n,
+    allowedFurnishers: FixedArray<PubKey, 4> = fill(seekerKey, 4),
+    allowedFurnisherCount: bigint = 0n,
+    allowListRoot: ByteString = toByteString(''),
+    sealedBidding: bigint = 0n,
+    commitDeadline: bigint = 0n,
+    revealDeadline: bigint = 0n,
     bids: FixedArray<Bid, 4> = fill(
       {
         furnisherKey: seekerKey,
@@ -172,7 +277,8 @@ export class EscrowContract extends SmartContract {
         timeOfBid: 0n,
         bond: 0n,
         timeRequired: 0n,
-        plans: toByteString('')
+        plans: toByteString(''),
+        validUntil: 0n
       },
       4
     )
@@ -202,6 +308,24 @@ export class EscrowContract extends SmartContract {
     this.contractSurvivesAdverseFurnisherDisputeResolution = contractSurvivesAdverseFurnisherDisputeResolution // If platform finds workers fail, does the contract survive?
     this.bountyIncreaseAllowanceMode = bountyIncreaseAllowanceMode // If this is a bounty contract, who may increase the bounty?
     this.bountyIncreaseCutoffPoint = bountyIncreaseCutoffPoint // When is the latest point where someone may make the bounty higher?
+    this.abandonedWorkRefundAllowed = abandonedWorkRefundAllowed // If a worker starts but never submits, can you take everything back without the platform?
+    this.abandonedWorkGracePeriod = abandonedWorkGracePeriod // How long after the deadline do they get before you can?
+    this.approvalTimeoutReleasesPayment = approvalTimeoutReleasesPayment // If you never look at submitted work, can the worker just take the payment?
+    this.evidencePeriod = evidencePeriod // Once a dispute is raised, how long do both sides get to commit their evidence before the platform rules?
+    this.panelKeys = panelKeys // Who sits on the arbiter panel, if disputes are decided by one instead of the platform alone?
+    this.panelSize = panelSize // How many of those slots hold real arbiters? Zero means there is no panel.
+    this.panelThreshold = panelThreshold // How many arbiters must sign a ruling?
+    this.appealKey = appealKey // Who hears an appeal against a ruling?
+    this.appealPeriod = appealPeriod // How long do both sides have to appeal before a ruling is final? Zero means rulings are final right away.
+    this.milestoneAmounts = milestoneAmounts // How much is released as each milestone is approved? The last one releases whatever remains.
+    this.milestoneDeadlines = milestoneDeadlines // When is each milestone due?
+    this.milestoneCount = milestoneCount // How many milestones is the work split into? Zero means a single deliverable.
+    this.allowedFurnishers = allowedFurnishers // Is bidding limited to a short list of invited furnishers?
+    this.allowedFurnisherCount = allowedFurnisherCount // How many are on that list? Zero means no inline list.
+    this.allowListRoot = allowListRoot // Or to the members of a larger list, committed as a Merkle root? Empty means no root.
+    this.sealedBidding = sealedBidding // Do furnishers commit to sealed bids, and only reveal them once bidding closes?
+    this.commitDeadline = commitDeadline // When does the window for committing sealed bids close?
+    this.revealDeadline = revealDeadline // When must sealed bids be revealed by? Bids still sealed then are discarded.
 
     // State starts at initial, with no bids
     this.status = EscrowContract.STATUS_INITIAL
@@ -215,15 +339,24 @@ export class EscrowContract extends SmartContract {
       timeOfBid: 0n,
       bond: 0n,
       timeRequired: 0n,
-      plans: toByteString('')
+      plans: toByteString(''),
+      validUntil: 0n
     }
     this.workCompletionTime = 0n
     this.workCompletionDescription = toByteString('')
+    this.disputeTime = 0n
+    this.seekerEvidenceHash = toByteString('')
+    this.furnisherEvidenceHash = toByteString('')
+    this.rulingTime = 0n
+    this.rulingAmountForSeeker = 0n
+    this.rulingAmountForFurnisher = 0n
+    this.milestonesReleased = 0n
+    this.bidCommitments = fill(toByteString(''), 4)
   }
 
   @method()
   public seekerCancelsBeforeAcceptOnChain (seekerSig: Sig) {
-    assert(this.status === EscrowContract.STATUS_INITIAL, 'Contract must be in the initial state for a seeker to cancel')
+    assert(this.status === EscrowContract.STATUS_INITIAL || this.status === this.openStatus(), 'Contract must still be open for bids for a seeker to cancel')
     assert(this.checkSig(seekerSig, this.seekerKey), 'Seeker must sign contract cancellation')
   }
 
@@ -281,6 +414,7 @@ export class EscrowContract extends SmartContract {
     }
     assert(
       this.status === EscrowContract.STATUS_INITIAL ||
+            this.status === this.openStatus() ||
             this.status === EscrowContract.STATUS_BID_ACCEPTED ||
             this.status === EscrowContract.STATUS_WORK_STARTED
     )
@@ -295,10 +429,75 @@ export class EscrowContract extends SmartContract {
   }
 
   @method(SigHash.ANYONECANPAY_SINGLE)
-  public furnisherPlacesBidOnChain (furnisherSig: Sig, bid: Bid, index: bigint) {
+  public furnisherPlacesBidOnChain (furnisherSig: Sig, bid: Bid, index: bigint, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint) {
     assert(this.status === EscrowContract.STATUS_INITIAL)
     assert(this.bountySolversNeedApproval === 1n)
+    assert(this.sealedBidding === 0n, 'Bids on this contract must be sealed')
     assert(this.checkSig(furnisherSig, bid.furnisherKey))
+    assert(this.furnisherAllowed(bid.furnisherKey, allowListProof, allowListIndex), 'Furnisher is not on the allow-list')
+    this.validateBid(bid)
+    assert(this.bids[Number(index)].furnisherKey === this.seekerKey) // Must use an open slot
+    this.bids[Number(index)] = bid
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherPlacesBid (furnisherSig: Sig, bid: Bid, index: bigint, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint): void {
+    this.bids[Number(index)] = bid
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherWithdrawsBidOnChain (furnisherSig: Sig, index: bigint) {
+    assert(this.status === EscrowContract.STATUS_INITIAL || this.status === this.openStatus())
+    assert(this.bids[Number(index)].furnisherKey !== this.seekerKey) // Slot must hold a bid
+    assert(this.checkSig(furnisherSig, this.bids[Number(index)].furnisherKey), 'Bidder must sign to withdraw their bid')
+    this.bids[Number(index)] = { // Free up the slot
+      furnisherKey: this.seekerKey,
+      bidAmount: 0n,
+      timeOfBid: 0n,
+      bond: 0n,
+      timeRequired: 0n,
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidCommitments[Number(index)] = toByteString('')
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherWithdrawsBid (furnisherSig: Sig, index: bigint): void {
+    this.bids[Number(index)] = { // Free up the slot
+      furnisherKey: this.seekerKey,
+      bidAmount: 0n,
+      timeOfBid: 0n,
+      bond: 0n,
+      timeRequired: 0n,
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidCommitments[Number(index)] = toByteString('')
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherAmendsBidOnChain (furnisherSig: Sig, bid: Bid, index: bigint) {
+    assert(this.status === EscrowContract.STATUS_INITIAL)
+    assert(this.bountySolversNeedApproval === 1n)
+    assert(this.sealedBidding === 0n, 'Sealed bids cannot be amended')
+    assert(this.bids[Number(index)].furnisherKey !== this.seekerKey) // Slot must hold a bid
+    assert(bid.furnisherKey === this.bids[Number(index)].furnisherKey) // Bids cannot change hands
+    assert(this.checkSig(furnisherSig, bid.furnisherKey), 'Bidder must sign to amend their bid')
+    this.validateBid(bid)
+    this.bids[Number(index)] = bid
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherAmendsBid (furnisherSig: Sig, bid: Bid, index: bigint): void {
+    this.bids[Number(index)] = bid
+  }
+
+  @method()
+  private validateBid (bid: Bid): void {
     if (this.contractType === EscrowContract.TYPE_BOUNTY) {
       assert(bid.bidAmount === this.ctx.utxo.value)
     } else {
@@ -315,6 +514,7 @@ export class EscrowContract extends SmartContract {
     if (this.contractType === EscrowContract.TYPE_BID) {
       assert(this.ctx.utxo.value === 1n)
     }
+    this.enforceProperTimeUnits()
     assert(bid.timeRequired > 0n)
     assert(bid.timeOfBid > 0n)
     if (this.delayUnit === EscrowContract.DELAY_UNIT_BLOCKS) {
@@ -324,22 +524,21 @@ export class EscrowContract extends SmartContract {
       assert(bid.timeRequired > 500000000n)
       assert(bid.timeOfBid > 500000000n)
     }
-    this.enforceProperTimeUnits()
+    if (bid.validUntil > 0n) {
+      assert(bid.validUntil >= bid.timeOfBid, 'Bid must be valid when it is made')
+    }
     assert(this.ctx.locktime >= bid.timeOfBid)
-    assert(this.bids[Number(index)].furnisherKey === this.seekerKey) // Must use an open slot
-    this.bids[Number(index)] = bid
-    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
   }
 
   @method()
-  furnisherPlacesBid (furnisherSig: Sig, bid: Bid, index: bigint): void {
-    this.bids[Number(index)] = bid
+  private bidUnexpired (bid: Bid): boolean {
+    return bid.validUntil === 0n || this.ctx.locktime <= bid.validUntil
   }
 
   @method(SigHash.ANYONECANPAY_SINGLE)
   public acceptBidOnChain (mode: bigint, sig: Sig, index: bigint) {
     const bid = this.bids[Number(index)]
-    assert(this.status === EscrowContract.STATUS_INITIAL)
+    assert(this.status === this.openStatus(), 'Bids cannot be accepted yet')
     assert(this.bountySolversNeedApproval === 1n)
     if (this.approvalMode === EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER_OR_PLATFORM) {
       assert(
@@ -356,7 +555,8 @@ export class EscrowContract extends SmartContract {
       assert(this.checkSig(sig, this.platformKey))
       this.bidAcceptedBy = EscrowContract.BID_ACCEPTED_BY_PLATFORM
     }
-    assert(this.ctx.sequence === 0xfffffffen)
+    this.enforceProperTimeUnits()
+    assert(this.bidUnexpired(bid), 'Bid has expired')
     assert(this.ctx.locktime < this.workCompletionDeadline - bid.timeRequired)
     this.status = EscrowContract.STATUS_BID_ACCEPTED
     this.acceptedBid = bid
@@ -379,6 +579,54 @@ export class EscrowContract extends SmartContract {
     this.acceptedBid = bid
   }
 
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public acceptOffChainBidOnChain (mode: bigint, sig: Sig, bid: Bid, furnisherSig: Sig, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint) {
+    assert(this.status === EscrowContract.STATUS_INITIAL)
+    assert(this.bountySolversNeedApproval === 1n)
+    assert(this.sealedBidding === 0n, 'Bids on this contract must be sealed')
+    if (this.approvalMode === EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER_OR_PLATFORM) {
+      assert(
+        mode === EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER ||
+                mode === EscrowContract.FURNISHER_APPROVAL_MODE_PLATFORM
+      )
+    } else {
+      assert(mode === this.approvalMode)
+    }
+    if (mode === EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER) {
+      assert(this.checkSig(sig, this.seekerKey))
+      this.bidAcceptedBy = EscrowContract.BID_ACCEPTED_BY_SEEKER
+    } else {
+      assert(this.checkSig(sig, this.platformKey))
+      this.bidAcceptedBy = EscrowContract.BID_ACCEPTED_BY_PLATFORM
+    }
+    assert(bid.furnisherKey !== this.seekerKey)
+    // The furnisher signs this very spend, which commits to the contract output and the bid
+    // written into its next state, so their signature cannot be used on any other contract
+    assert(this.checkSig(furnisherSig, bid.furnisherKey), 'Furnisher must sign to have their bid accepted')
+    assert(this.furnisherAllowed(bid.furnisherKey, allowListProof, allowListIndex), 'Furnisher is not on the allow-list')
+    this.validateBid(bid)
+    assert(this.bidUnexpired(bid), 'Bid has expired')
+    assert(this.ctx.locktime < this.workCompletionDeadline - bid.timeRequired)
+    this.status = EscrowContract.STATUS_BID_ACCEPTED
+    this.acceptedBid = bid
+    if (this.contractType === EscrowContract.TYPE_BID) {
+      assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(bid.bidAmount)))
+    } else {
+      assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+    }
+  }
+
+  @method()
+  acceptOffChainBid (mode: bigint, sig: Sig, bid: Bid, furnisherSig: Sig, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint): void {
+    if (mode === EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER) {
+      this.bidAcceptedBy = EscrowContract.BID_ACCEPTED_BY_SEEKER
+    } else {
+      this.bidAcceptedBy = EscrowContract.BID_ACCEPTED_BY_PLATFORM
+    }
+    this.status = EscrowContract.STATUS_BID_ACCEPTED
+    this.acceptedBid = bid
+  }
+
   @method(SigHash.ANYONECANPAY_SINGLE)
   public withdrawBidAcceptanceOnChain (sig: Sig, index: bigint) {
     assert(this.status === EscrowContract.STATUS_BID_ACCEPTED)
@@ -395,14 +643,15 @@ export class EscrowContract extends SmartContract {
     this.enforceProperTimeUnits()
     assert(this.ctx.locktime > (this.acceptedBid).timeOfBid + this.maxWorkStartDelay)
     assert(this.bids[Number(index)] === this.acceptedBid)
-    this.status = EscrowContract.STATUS_INITIAL
+    this.status = this.openStatus()
     this.acceptedBid = { // Initially empty / placeholder
       furnisherKey: this.seekerKey,
       bidAmount: 0n,
       timeOfBid: 0n,
       bond: 0n,
       timeRequired: 0n,
-      plans: toByteString('')
+      plans: toByteString(''),
+      validUntil: 0n
     }
     this.bids[Number(index)] = { // Free up the slot
       furnisherKey: this.seekerKey,
@@ -410,7 +659,8 @@ export class EscrowContract extends SmartContract {
       timeOfBid: 0n,
       bond: 0n,
       timeRequired: 0n,
-      plans: toByteString('')
+      plans: toByteString(''),
+      validUntil: 0n
     }
     this.bidAcceptedBy = EscrowContract.BID_NOT_YET_ACCEPTED
     if (this.contractType === EscrowContract.TYPE_BID) {
@@ -422,14 +672,15 @@ export class EscrowContract extends SmartContract {
 
   @method()
   withdrawBidAcceptance (sig: Sig, index: bigint): void {
-    this.status = EscrowContract.STATUS_INITIAL
+    this.status = this.openStatus()
     this.acceptedBid = { // Initially empty / placeholder
       furnisherKey: this.seekerKey,
       bidAmount: 0n,
       timeOfBid: 0n,
       bond: 0n,
       timeRequired: 0n,
-      plans: toByteString('')
+      plans: toByteString(''),
+      validUntil: 0n
     }
     this.bids[Number(index)] = { // Free up the slot
       furnisherKey: this.seekerKey,
@@ -437,14 +688,63 @@ export class EscrowContract extends SmartContract {
       timeOfBid: 0n,
       bond: 0n,
       timeRequired: 0n,
-      plans: toByteString('')
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidAcceptedBy = EscrowContract.BID_NOT_YET_ACCEPTED
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public withdrawOffChainBidAcceptanceOnChain (sig: Sig) {
+    assert(this.status === EscrowContract.STATUS_BID_ACCEPTED)
+    if (this.bidAcceptedBy === EscrowContract.BID_ACCEPTED_BY_SEEKER) {
+      assert(this.checkSig(sig, this.seekerKey))
+    } else {
+      assert(this.checkSig(sig, this.platformKey))
+    }
+    if (this.delayUnit === EscrowContract.DELAY_UNIT_BLOCKS) {
+      assert((this.acceptedBid).timeOfBid + this.maxWorkStartDelay < 500000000n)
+    } else {
+      assert((this.acceptedBid).timeOfBid + this.maxWorkStartDelay > 500000000n)
+    }
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime > (this.acceptedBid).timeOfBid + this.maxWorkStartDelay)
+    this.status = EscrowContract.STATUS_INITIAL
+    this.acceptedBid = { // Initially empty / placeholder
+      furnisherKey: this.seekerKey,
+      bidAmount: 0n,
+      timeOfBid: 0n,
+      bond: 0n,
+      timeRequired: 0n,
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidAcceptedBy = EscrowContract.BID_NOT_YET_ACCEPTED
+    if (this.contractType === EscrowContract.TYPE_BID) {
+      assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(1n))) // Force bid amount to be withdrawn
+    } else {
+      assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+    }
+  }
+
+  @method()
+  withdrawOffChainBidAcceptance (sig: Sig): void {
+    this.status = EscrowContract.STATUS_INITIAL
+    this.acceptedBid = { // Initially empty / placeholder
+      furnisherKey: this.seekerKey,
+      bidAmount: 0n,
+      timeOfBid: 0n,
+      bond: 0n,
+      timeRequired: 0n,
+      plans: toByteString(''),
+      validUntil: 0n
     }
     this.bidAcceptedBy = EscrowContract.BID_NOT_YET_ACCEPTED
   }
 
   @method(SigHash.ANYONECANPAY_SINGLE)
   public rejectBidOnChain (mode: bigint, sig: Sig, index: bigint) {
-    assert(this.status === EscrowContract.STATUS_INITIAL)
+    assert(this.status === EscrowContract.STATUS_INITIAL || this.status === this.openStatus())
     if (this.approvalMode === EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER_OR_PLATFORM) {
       assert(
         mode === EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER ||
@@ -464,8 +764,10 @@ export class EscrowContract extends SmartContract {
       timeOfBid: 0n,
       bond: 0n,
       timeRequired: 0n,
-      plans: toByteString('')
+      plans: toByteString(''),
+      validUntil: 0n
     }
+    this.bidCommitments[Number(index)] = toByteString('')
     assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
   }
 
@@ -477,8 +779,127 @@ export class EscrowContract extends SmartContract {
       timeOfBid: 0n,
       bond: 0n,
       timeRequired: 0n,
-      plans: toByteString('')
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidCommitments[Number(index)] = toByteString('')
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherCommitsBidOnChain (furnisherSig: Sig, furnisherKey: PubKey, commitment: ByteString, index: bigint, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint) {
+    assert(this.status === EscrowContract.STATUS_INITIAL)
+    assert(this.sealedBidding === 1n, 'Bids on this contract are not sealed')
+    assert(this.checkSig(furnisherSig, furnisherKey))
+    assert(furnisherKey !== this.seekerKey)
+    assert(this.furnisherAllowed(furnisherKey, allowListProof, allowListIndex), 'Furnisher is not on the allow-list')
+    assert(len(commitment) === 32n, 'Commitment must be a SHA-256 digest')
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime <= this.commitDeadline, 'Bidding has closed')
+    assert(this.bids[Number(index)].furnisherKey === this.seekerKey) // Must use an open slot
+    // The slot only names the bidder until the bid is revealed
+    this.bids[Number(index)] = {
+      furnisherKey,
+      bidAmount: 0n,
+      timeOfBid: this.ctx.locktime,
+      bond: 0n,
+      timeRequired: 0n,
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidCommitments[Number(index)] = commitment
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherCommitsBid (furnisherSig: Sig, furnisherKey: PubKey, commitment: ByteString, index: bigint, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint): void {
+    this.bids[Number(index)] = {
+      furnisherKey,
+      bidAmount: 0n,
+      timeOfBid: this.ctx.locktime,
+      bond: 0n,
+      timeRequired: 0n,
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidCommitments[Number(index)] = commitment
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherRevealsBidOnChain (furnisherSig: Sig, bid: Bid, salt: ByteString, index: bigint) {
+    assert(this.status === EscrowContract.STATUS_INITIAL || this.status === EscrowContract.STATUS_REVEALING_BIDS)
+    assert(this.sealedBidding === 1n, 'Bids on this contract are not sealed')
+    assert(this.checkSig(furnisherSig, bid.furnisherKey))
+    assert(this.bids[Number(index)].furnisherKey === bid.furnisherKey)
+    assert(bid.timeOfBid === this.bids[Number(index)].timeOfBid) // Bids keep the time they were committed
+    assert(len(this.bidCommitments[Number(index)]) > 0n, 'Slot holds no sealed bid')
+    assert(this.bidCommitment(bid, salt) === this.bidCommitments[Number(index)], 'Bid does not match its commitment')
+    this.validateBid(bid)
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime > this.commitDeadline, 'Bidding is still open')
+    assert(this.ctx.locktime <= this.revealDeadline, 'Reveal period has ended')
+    this.bids[Number(index)] = bid
+    this.bidCommitments[Number(index)] = toByteString('')
+    this.status = EscrowContract.STATUS_REVEALING_BIDS
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherRevealsBid (furnisherSig: Sig, bid: Bid, salt: ByteString, index: bigint): void {
+    this.enforceProperTimeUnits()
+    this.bids[Number(index)] = bid
+    this.bidCommitments[Number(index)] = toByteString('')
+    this.status = EscrowContract.STATUS_REVEALING_BIDS
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public closeSealedBiddingOnChain () {
+    assert(this.status === EscrowContract.STATUS_INITIAL || this.status === EscrowContract.STATUS_REVEALING_BIDS)
+    assert(this.sealedBidding === 1n, 'Bids on this contract are not sealed')
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime > this.revealDeadline, 'Reveal period has not ended')
+    // Anyone may close the auction once the reveal period is over
+    this.discardUnrevealedBids()
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  closeSealedBidding (): void {
+    this.discardUnrevealedBids()
+  }
+
+  @method()
+  private discardUnrevealedBids (): void {
+    for (let i = 0; i < 4; i++) {
+      if (len(this.bidCommitments[i]) > 0n) {
+        this.bids[i] = { // Free up the slot
+          furnisherKey: this.seekerKey,
+          bidAmount: 0n,
+          timeOfBid: 0n,
+          bond: 0n,
+          timeRequired: 0n,
+          plans: toByteString(''),
+          validUntil: 0n
+        }
+        this.bidCommitments[i] = toByteString('')
+      }
     }
+    this.status = EscrowContract.STATUS_BIDS_REVEALED
+  }
+
+  @method()
+  private bidCommitment (bid: Bid, salt: ByteString): ByteString {
+    return sha256(int2ByteString(bid.bidAmount, 8n) + int2ByteString(bid.bond, 8n) + int2ByteString(bid.timeRequired, 8n) +
+      int2ByteString(bid.validUntil, 8n) + bid.plans + salt)
+  }
+
+  @method()
+  private openStatus (): bigint {
+    // Sealed auctions only take acceptances once the bids have been revealed
+    let status = EscrowContract.STATUS_INITIAL
+    if (this.sealedBidding === 1n) {
+      status = EscrowContract.STATUS_BIDS_REVEALED
+    }
+    return status
   }
 
   @method(SigHash.ANYONECANPAY_SINGLE)
@@ -512,49 +933,100 @@ export class EscrowContract extends SmartContract {
     this.status = EscrowContract.STATUS_WORK_STARTED
   }
 
+  @method()
+  public seekerReclaimsAbandonedWorkOnChain (seekerSig: Sig) {
+    assert(this.status === EscrowContract.STATUS_WORK_STARTED, 'Work must have started and never been submitted')
+    assert(this.abandonedWorkRefundAllowed === 1n, 'Abandoned work refunds are not allowed on this contract')
+    assert(this.checkSig(seekerSig, this.seekerKey), 'Seeker must sign to reclaim abandoned work')
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime > this.workCompletionDeadline + this.abandonedWorkGracePeriod, 'Grace period after the deadline must have passed')
+    // The seeker takes back the funds along with the forfeited bond
+  }
+
   @method(SigHash.ANYONECANPAY_SINGLE)
-  public seekerRaisesDisputeOnChain (seekerSig: Sig) {
+  public seekerRaisesDisputeOnChain (seekerSig: Sig, evidenceHash: ByteString) {
     assert(this.checkSig(seekerSig, this.seekerKey))
     assert(
       this.status === EscrowContract.STATUS_WORK_STARTED ||
             this.status === EscrowContract.STATUS_WORK_SUBMITTED
     )
+    this.enforceProperTimeUnits()
     if (this.status === EscrowContract.STATUS_WORK_STARTED) {
-      this.enforceProperTimeUnits()
-      assert(this.ctx.locktime > this.workCompletionDeadline)
+      assert(this.ctx.locktime > this.currentDeadline())
     }
+    assert(len(evidenceHash) === 0n || len(evidenceHash) === 32n, 'Evidence hash must be empty or a SHA-256 digest')
     this.status = EscrowContract.STATUS_DISPUTED_BY_SEEKER
-    // this.seekerDisputeEvidence = seekerDisputeEvidence
+    this.disputeTime = this.ctx.locktime
+    this.seekerEvidenceHash = evidenceHash
     assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
   }
 
   @method()
-  seekerRaisesDispute (seekerSig: Sig): void {
+  seekerRaisesDispute (seekerSig: Sig, evidenceHash: ByteString): void {
     this.status = EscrowContract.STATUS_DISPUTED_BY_SEEKER
-    // this.seekerDisputeEvidence = seekerDisputeEvidence
+    this.disputeTime = this.ctx.locktime
+    this.seekerEvidenceHash = evidenceHash
   }
 
   @method(SigHash.ANYONECANPAY_SINGLE)
-  public furnisherRaisesDisputeOnChain (furnisherSig: Sig) {
+  public furnisherRaisesDisputeOnChain (furnisherSig: Sig, evidenceHash: ByteString) {
     assert(this.checkSig(furnisherSig, (this.acceptedBid).furnisherKey))
     assert(this.status === EscrowContract.STATUS_WORK_SUBMITTED)
     this.enforceProperTimeUnits()
     assert(this.ctx.locktime > (this.workCompletionTime) + this.maxWorkApprovalDelay)
+    assert(len(evidenceHash) === 0n || len(evidenceHash) === 32n, 'Evidence hash must be empty or a SHA-256 digest')
     this.status = EscrowContract.STATUS_DISPUTED_BY_FURNISHER
-    // this.furnisherDisputeEvidence = furnisherDisputeEvidence
+    this.disputeTime = this.ctx.locktime
+    this.furnisherEvidenceHash = evidenceHash
     assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
   }
 
   @method()
-  furnisherRaisesDispute (furnisherSig: Sig): void {
+  furnisherRaisesDispute (furnisherSig: Sig, evidenceHash: ByteString): void {
     this.status = EscrowContract.STATUS_DISPUTED_BY_FURNISHER
-    // this.furnisherDisputeEvidence = furnisherDisputeEvidence
+    this.disputeTime = this.ctx.locktime
+    this.furnisherEvidenceHash = evidenceHash
+  }
+
+  // Each side commits to its evidence bundle once, by hash, before the evidence period ends.
+  // The bundles themselves stay off-chain and are checked against these hashes.
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public seekerSubmitsEvidenceOnChain (seekerSig: Sig, evidenceHash: ByteString) {
+    assert(this.isDisputed(), 'Evidence can only be submitted during a dispute')
+    assert(len(this.seekerEvidenceHash) === 0n, 'Seeker evidence has already been submitted')
+    assert(len(evidenceHash) === 32n, 'Evidence hash must be a SHA-256 digest')
+    assert(this.checkSig(seekerSig, this.seekerKey))
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime <= this.disputeTime + this.evidencePeriod, 'Evidence period has ended')
+    this.seekerEvidenceHash = evidenceHash
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
   }
 
-  // TODO: Consider adding on-chain adversarial evidence collection states from each party prior to dispute decision by platform.
+  @method()
+  seekerSubmitsEvidence (seekerSig: Sig, evidenceHash: ByteString): void {
+    this.seekerEvidenceHash = evidenceHash
+  }
 
   @method(SigHash.ANYONECANPAY_SINGLE)
-  public furnisherSubmitsWorkOnChain (furnisherSig: Sig, workCompletionDescription: ByteString, adHocBid: Bid) {
+  public furnisherSubmitsEvidenceOnChain (furnisherSig: Sig, evidenceHash: ByteString) {
+    assert(this.isDisputed(), 'Evidence can only be submitted during a dispute')
+    assert(len(this.furnisherEvidenceHash) === 0n, 'Furnisher evidence has already been submitted')
+    assert(len(evidenceHash) === 32n, 'Evidence hash must be a SHA-256 digest')
+    assert(this.checkSig(furnisherSig, (this.acceptedBid).furnisherKey))
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime <= this.disputeTime + this.evidencePeriod, 'Evidence period has ended')
+    this.furnisherEvidenceHash = evidenceHash
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherSubmitsEvidence (furnisherSig: Sig, evidenceHash: ByteString): void {
+    this.furnisherEvidenceHash = evidenceHash
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherSubmitsWorkOnChain (furnisherSig: Sig, workCompletionDescription: ByteString, adHocBid: Bid, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint) {
+    assert(this.milestoneCount === 0n, 'Work on this contract is submitted one milestone at a time')
     this.enforceProperTimeUnits()
     this.workCompletionTime = this.ctx.locktime
     this.workCompletionDescription = workCompletionDescription
@@ -562,6 +1034,7 @@ export class EscrowContract extends SmartContract {
       assert(this.status === EscrowContract.STATUS_INITIAL)
       this.status = EscrowContract.STATUS_WORK_SUBMITTED
       assert(this.checkSig(furnisherSig, adHocBid.furnisherKey))
+      assert(this.furnisherAllowed(adHocBid.furnisherKey, allowListProof, allowListIndex), 'Furnisher is not on the allow-list')
       assert(adHocBid.bidAmount === this.ctx.utxo.value) // Bounty does not include their bond, which they will get back if their solution is legitimate
       assert(adHocBid.timeOfBid === this.ctx.locktime)
       assert(adHocBid.bond === this.requiredBondAmount)
@@ -578,7 +1051,7 @@ export class EscrowContract extends SmartContract {
   }
 
   @method()
-  furnisherSubmitsWork (furnisherSig: Sig, workCompletionDescription: ByteString, adHocBid: Bid): void {
+  furnisherSubmitsWork (furnisherSig: Sig, workCompletionDescription: ByteString, adHocBid: Bid, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint): void {
     this.workCompletionTime = this.ctx.locktime
     this.workCompletionDescription = workCompletionDescription
     if (this.contractType === EscrowContract.TYPE_BOUNTY && this.bountySolversNeedApproval === 0n) {
@@ -592,6 +1065,7 @@ export class EscrowContract extends SmartContract {
   @method(SigHash.ANYONECANPAY_SINGLE)
   public seekerApprovesWorkOnChain (seekerSig: Sig) {
     assert(this.status === EscrowContract.STATUS_WORK_SUBMITTED)
+    assert(this.milestoneCount === 0n, 'Work on this contract is approved one milestone at a time')
     assert(this.checkSig(seekerSig, this.seekerKey))
     this.status = EscrowContract.STATUS_RESOLVED
     assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
@@ -602,16 +1076,91 @@ export class EscrowContract extends SmartContract {
     this.status = EscrowContract.STATUS_RESOLVED
   }
 
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherSubmitsMilestoneOnChain (furnisherSig: Sig, workCompletionDescription: ByteString) {
+    assert(this.status === EscrowContract.STATUS_WORK_STARTED)
+    assert(this.milestoneCount > 0n, 'This contract has no milestones')
+    assert(this.checkSig(furnisherSig, (this.acceptedBid).furnisherKey))
+    this.enforceProperTimeUnits()
+    this.workCompletionTime = this.ctx.locktime
+    this.workCompletionDescription = workCompletionDescription
+    this.status = EscrowContract.STATUS_WORK_SUBMITTED
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherSubmitsMilestone (furnisherSig: Sig, workCompletionDescription: ByteString): void {
+    this.workCompletionTime = this.ctx.locktime
+    this.workCompletionDescription = workCompletionDescription
+    this.status = EscrowContract.STATUS_WORK_SUBMITTED
+  }
+
+  @method(SigHash.ANYONECANPAY_ALL)
+  public seekerApprovesMilestoneOnChain (seekerSig: Sig, otherOutputs: ByteString) {
+    assert(this.status === EscrowContract.STATUS_WORK_SUBMITTED)
+    assert(this.milestoneCount > 0n, 'This contract has no milestones')
+    assert(this.checkSig(seekerSig, this.seekerKey))
+    if (this.milestonesReleased === this.milestoneCount - 1n) {
+      // The last milestone resolves the contract, and the furnisher claims the rest as usual
+      this.milestonesReleased++
+      this.status = EscrowContract.STATUS_RESOLVED
+      assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value) + otherOutputs))
+    } else {
+      // Earlier milestones pay out their amount, less the platform's share of it, and work continues
+      const amount = this.currentMilestoneAmount()
+      assert(amount < this.ctx.utxo.value, 'Milestone amount exceeds the contract balance')
+      const fee = amount * this.escrowServiceFeeBasisPoints / 10000n
+      this.releaseMilestone()
+      assert(this.ctx.hashOutputs === hash256(
+        this.buildStateOutput(this.ctx.utxo.value - amount) +
+                Utils.buildPublicKeyHashOutput(hash160((this.acceptedBid).furnisherKey), amount - fee) +
+                this.platformFeeOutput(amount) +
+                otherOutputs
+      ))
+    }
+  }
+
+  @method()
+  seekerApprovesMilestone (seekerSig: Sig, otherOutputs: ByteString): void {
+    if (this.milestonesReleased === this.milestoneCount - 1n) {
+      this.milestonesReleased++
+      this.status = EscrowContract.STATUS_RESOLVED
+    } else {
+      this.releaseMilestone()
+    }
+  }
+
   @method()
   public furnisherClaimsPaymentOnChain (furnisherSig: Sig) {
     assert(this.status === EscrowContract.STATUS_RESOLVED)
+    assert(this.ctx.utxo.value * this.escrowServiceFeeBasisPoints / 10000n === 0n, 'A platform fee is owed, use furnisherClaimsPaymentWithFeeOnChain')
     assert(this.checkSig(furnisherSig, (this.acceptedBid).furnisherKey))
     // At this point, there was no dispute and the furnisher is free to drain the contract.
     // They may do whatever they want with the funds, it is no longer enforced here.
   }
 
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherClaimsPaymentWithFeeOnChain (furnisherSig: Sig) {
+    assert(this.status === EscrowContract.STATUS_RESOLVED)
+    assert(this.checkSig(furnisherSig, (this.acceptedBid).furnisherKey), 'Only the accepted furnisher may claim payment')
+    // Beyond the platform fee, the furnisher may do whatever they want with the funds.
+    assert(this.platformFeeIsPaid(), 'First output must pay the platform fee')
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherClaimsAfterApprovalTimeoutOnChain (furnisherSig: Sig) {
+    assert(this.status === EscrowContract.STATUS_WORK_SUBMITTED)
+    assert(this.approvalTimeoutReleasesPayment === 1n, 'Payment is not released on approval timeout for this contract')
+    assert(this.milestoneCount === 0n || this.milestonesReleased === this.milestoneCount - 1n, 'Only the last milestone is released on approval timeout')
+    assert(this.checkSig(furnisherSig, (this.acceptedBid).furnisherKey))
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime > (this.workCompletionTime) + this.maxWorkApprovalDelay)
+    // The seeker never responded, so the work counts as approved and the furnisher drains the contract.
+    assert(this.platformFeeIsPaid(), 'First output must pay the platform fee')
+  }
+
   @method(SigHash.ANYONECANPAY_ALL)
-  public resolveDisputeOnChain (platformResolves: bigint, amountForSeeker: bigint, amountForFurnisher: bigint, otherOutputs: ByteString, platformSig: Sig, seekerSig: Sig, furnisherSig: Sig) {
+  public resolveDisputeOnChain (platformResolves: bigint, amountForSeeker: bigint, amountForFurnisher: bigint, otherOutputs: ByteString, platformSig: Sig, seekerSig: Sig, furnisherSig: Sig, panelSigs: FixedArray<Sig, 5>) {
     assert(
       this.status === EscrowContract.STATUS_DISPUTED_BY_FURNISHER ||
             this.status === EscrowContract.STATUS_DISPUTED_BY_SEEKER
@@ -619,7 +1168,16 @@ export class EscrowContract extends SmartContract {
     assert(amountForSeeker >= 0n)
     assert(amountForFurnisher >= 0n)
     if (platformResolves === 1n) {
-      assert(this.checkSig(platformSig, this.platformKey))
+      if (this.panelSize === 0n) {
+        assert(this.checkSig(platformSig, this.platformKey))
+      } else {
+        assert(this.panelApproves(panelSigs), 'Not enough arbiters signed the ruling')
+      }
+      if (len(this.seekerEvidenceHash) === 0n || len(this.furnisherEvidenceHash) === 0n) {
+        // Until both sides have committed their evidence, the platform must wait out the evidence period
+        this.enforceProperTimeUnits()
+        assert(this.ctx.locktime > this.disputeTime + this.evidencePeriod, 'Evidence period has not ended')
+      }
       if (this.escrowMustBeFullyDecisive === 1n) {
         assert(amountForSeeker === 0n || amountForFurnisher === 0n)
       }
@@ -631,30 +1189,292 @@ export class EscrowContract extends SmartContract {
       // validate total of amounts
       assert(amountForSeeker + amountForFurnisher >= this.ctx.utxo.value)
     }
-    if (amountForSeeker > 0n && amountForFurnisher === 0n) {
-      if (this.contractSurvivesAdverseFurnisherDisputeResolution === 1n) {
-        assert(this.ctx.hashOutputs === hash256(
-          this.buildStateOutput(amountForSeeker) +
-                    otherOutputs
-        ))
-      } else {
-        assert(this.ctx.hashOutputs === hash256(
-          Utils.buildPublicKeyHashOutput(hash160(this.seekerKey), amountForSeeker) +
-                    otherOutputs
-        ))
-      }
-    } else if (amountForSeeker === 0n && amountForFurnisher > 0n) {
+    if (platformResolves === 1n && this.appealPeriod > 0n) {
+      // The ruling only takes effect once the appeal period passes without an appeal
+      this.enforceProperTimeUnits()
+      this.status = EscrowContract.STATUS_PROVISIONALLY_RESOLVED
+      this.rulingTime = this.ctx.locktime
+      this.rulingAmountForSeeker = amountForSeeker
+      this.rulingAmountForFurnisher = amountForFurnisher
+      assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value) + otherOutputs))
+    } else if (platformResolves === 1n) {
+      // The platform fee is paid on every ruling, the same way as when it is finalized or appealed
       assert(this.ctx.hashOutputs === hash256(
-        Utils.buildPublicKeyHashOutput(hash160((this.acceptedBid).furnisherKey), amountForFurnisher) +
+        this.rulingOutputs(amountForSeeker, amountForFurnisher) +
+                this.platformFeeOutput(this.ctx.utxo.value) +
                 otherOutputs
       ))
     } else {
-      assert(this.ctx.hashOutputs === hash256(
-        Utils.buildPublicKeyHashOutput(hash160(this.seekerKey), amountForSeeker) +
-                Utils.buildPublicKeyHashOutput(hash160((this.acceptedBid).furnisherKey), amountForFurnisher) +
+      assert(this.ctx.hashOutputs === hash256(this.rulingOutputs(amountForSeeker, amountForFurnisher) + otherOutputs))
+    }
+  }
+
+  @method()
+  resolveDispute (platformResolves: bigint, amountForSeeker: bigint, amountForFurnisher: bigint, otherOutputs: ByteString, platformSig: Sig, seekerSig: Sig, furnisherSig: Sig, panelSigs: FixedArray<Sig, 5>): void {
+    if (platformResolves === 1n && this.appealPeriod > 0n) {
+      this.status = EscrowContract.STATUS_PROVISIONALLY_RESOLVED
+      this.rulingTime = this.ctx.locktime
+      this.rulingAmountForSeeker = amountForSeeker
+      this.rulingAmountForFurnisher = amountForFurnisher
+    } else if (this.rulingReopens(amountForSeeker, amountForFurnisher)) {
+      this.reopenForBidding()
+    }
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public seekerAppealsOnChain (seekerSig: Sig) {
+    assert(this.checkSig(seekerSig, this.seekerKey))
+    assert(this.status === EscrowContract.STATUS_PROVISIONALLY_RESOLVED)
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime <= this.rulingTime + this.appealPeriod, 'Appeal period has ended')
+    this.status = EscrowContract.STATUS_APPEALED_BY_SEEKER
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  seekerAppeals (seekerSig: Sig): void {
+    this.status = EscrowContract.STATUS_APPEALED_BY_SEEKER
+  }
+
+  @method(SigHash.ANYONECANPAY_SINGLE)
+  public furnisherAppealsOnChain (furnisherSig: Sig) {
+    assert(this.checkSig(furnisherSig, (this.acceptedBid).furnisherKey))
+    assert(this.status === EscrowContract.STATUS_PROVISIONALLY_RESOLVED)
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime <= this.rulingTime + this.appealPeriod, 'Appeal period has ended')
+    this.status = EscrowContract.STATUS_APPEALED_BY_FURNISHER
+    assert(this.ctx.hashOutputs === hash256(this.buildStateOutput(this.ctx.utxo.value)))
+  }
+
+  @method()
+  furnisherAppeals (furnisherSig: Sig): void {
+    this.status = EscrowContract.STATUS_APPEALED_BY_FURNISHER
+  }
+
+  @method(SigHash.ANYONECANPAY_ALL)
+  public finalizeRulingOnChain (otherOutputs: ByteString) {
+    assert(this.status === EscrowContract.STATUS_PROVISIONALLY_RESOLVED)
+    this.enforceProperTimeUnits()
+    assert(this.ctx.locktime > this.rulingTime + this.appealPeriod, 'Appeal period has not ended')
+    // Nobody appealed, so anyone may carry out the ruling. The payouts and the platform fee
+    // already account for the whole balance, so otherOutputs can only spend the caller's own funds.
+    assert(this.ctx.hashOutputs === hash256(
+      this.rulingOutputs(this.rulingAmountForSeeker, this.rulingAmountForFurnisher) +
+                this.platformFeeOutput(this.ctx.utxo.value) +
                 otherOutputs
-      ))
+    ))
+  }
+
+  @method()
+  finalizeRuling (otherOutputs: ByteString): void {
+    if (this.rulingReopens(this.rulingAmountForSeeker, this.rulingAmountForFurnisher)) {
+      this.reopenForBidding()
+    }
+  }
+
+  @method(SigHash.ANYONECANPAY_ALL)
+  public resolveAppealOnChain (amountForSeeker: bigint, amountForFurnisher: bigint, otherOutputs: ByteString, appealSig: Sig) {
+    assert(
+      this.status === EscrowContract.STATUS_APPEALED_BY_SEEKER ||
+            this.status === EscrowContract.STATUS_APPEALED_BY_FURNISHER
+    )
+    assert(this.checkSig(appealSig, this.appealKey))
+    assert(amountForSeeker >= 0n)
+    assert(amountForFurnisher >= 0n)
+    if (this.escrowMustBeFullyDecisive === 1n) {
+      assert(amountForSeeker === 0n || amountForFurnisher === 0n)
+    }
+    // validate total of amounts less fee
+    assert(amountForSeeker + amountForFurnisher >= this.ctx.utxo.value - (this.ctx.utxo.value * this.escrowServiceFeeBasisPoints) / 10000n)
+    assert(this.ctx.hashOutputs === hash256(
+      this.rulingOutputs(amountForSeeker, amountForFurnisher) +
+                this.platformFeeOutput(this.ctx.utxo.value) +
+                otherOutputs
+    ))
+  }
+
+  @method()
+  resolveAppeal (amountForSeeker: bigint, amountForFurnisher: bigint, otherOutputs: ByteString, appealSig: Sig): void {
+    if (this.rulingReopens(amountForSeeker, amountForFurnisher)) {
+      this.reopenForBidding()
+    }
+  }
+
+  @method()
+  private rulingReopens (amountForSeeker: bigint, amountForFurnisher: bigint): boolean {
+    return amountForSeeker > 0n && amountForFurnisher === 0n && this.contractSurvivesAdverseFurnisherDisputeResolution === 1n
+  }
+
+  @method()
+  private rulingOutputs (amountForSeeker: bigint, amountForFurnisher: bigint): ByteString {
+    // Pays out a final ruling, or reopens a surviving contract when the furnisher loses
+    let outputs = toByteString('')
+    if (this.rulingReopens(amountForSeeker, amountForFurnisher)) {
+      this.reopenForBidding()
+      if (this.contractType === EscrowContract.TYPE_BID) {
+        // Bid contracts are funded again when the next bid is accepted
+        outputs = this.buildStateOutput(1n) +
+                  Utils.buildPublicKeyHashOutput(hash160(this.seekerKey), amountForSeeker - 1n)
+      } else {
+        outputs = this.buildStateOutput(amountForSeeker)
+      }
+    } else {
+      if (amountForSeeker > 0n) {
+        outputs += Utils.buildPublicKeyHashOutput(hash160(this.seekerKey), amountForSeeker)
+      }
+      if (amountForFurnisher > 0n) {
+        outputs += Utils.buildPublicKeyHashOutput(hash160((this.acceptedBid).furnisherKey), amountForFurnisher)
+      }
+    }
+    return outputs
+  }
+
+  @method()
+  private reopenForBidding (): void {
+    // The furnisher who lost the dispute cannot simply be accepted again
+    for (let i = 0; i < 4; i++) {
+      if (this.bids[i].furnisherKey === (this.acceptedBid).furnisherKey) {
+        this.bids[i] = { // Free up the slot
+          furnisherKey: this.seekerKey,
+          bidAmount: 0n,
+          timeOfBid: 0n,
+          bond: 0n,
+          timeRequired: 0n,
+          plans: toByteString(''),
+          validUntil: 0n
+        }
+      }
+    }
+    this.status = this.openStatus()
+    this.acceptedBid = { // Initially empty / placeholder
+      furnisherKey: this.seekerKey,
+      bidAmount: 0n,
+      timeOfBid: 0n,
+      bond: 0n,
+      timeRequired: 0n,
+      plans: toByteString(''),
+      validUntil: 0n
+    }
+    this.bidAcceptedBy = EscrowContract.BID_NOT_YET_ACCEPTED
+    // The old deadline has usually passed by now. Clearing it means no bid can be accepted
+    // until the seeker sets a new one.
+    this.workCompletionDeadline = 0n
+    this.workCompletionTime = 0n
+    this.workCompletionDescription = toByteString('')
+    this.disputeTime = 0n
+    this.seekerEvidenceHash = toByteString('')
+    this.furnisherEvidenceHash = toByteString('')
+    this.rulingTime = 0n
+    this.rulingAmountForSeeker = 0n
+    this.rulingAmountForFurnisher = 0n
+  }
+
+  @method()
+  private panelApproves (panelSigs: FixedArray<Sig, 5>): boolean {
+    // The locking script is never checked when it is created, so a panel the contract cannot
+    // trust must be caught here before any of its signatures are counted.
+    assert(this.panelSize <= 5n, 'A panel has at most 5 arbiters')
+    assert(this.panelThreshold >= 1n && this.panelThreshold <= this.panelSize, 'Panel threshold must be between 1 and the panel size')
+    for (let i = 0; i < 5; i++) {
+      for (let j = 0; j < 5; j++) {
+        if (i < j && BigInt(j) < this.panelSize) {
+          assert(this.panelKeys[i] !== this.panelKeys[j], 'Panel arbiters must be distinct')
+        }
+      }
+    }
+    // Signatures line up with the panel keys. Arbiters who abstain leave their slot empty.
+    let approvals = 0n
+    for (let i = 0; i < 5; i++) {
+      if (BigInt(i) < this.panelSize && this.checkSig(panelSigs[i], this.panelKeys[i])) {
+        approvals++
+      }
+    }
+    return approvals >= this.panelThreshold
+  }
+
+  @method()
+  private furnisherAllowed (furnisherKey: PubKey, allowListProof: FixedArray<ByteString, 8>, allowListIndex: bigint): boolean {
+    let allowed = this.allowedFurnisherCount === 0n && len(this.allowListRoot) === 0n
+    for (let i = 0; i < 4; i++) {
+      if (BigInt(i) < this.allowedFurnisherCount && this.allowedFurnishers[i] === furnisherKey) {
+        allowed = true
+      }
+    }
+    if (len(this.allowListRoot) > 0n) {
+      // Walk up from the furnisher's leaf. An empty sibling marks a level where the node
+      // had no pair and was carried up unchanged.
+      let node: ByteString = sha256(furnisherKey)
+      let position = allowListIndex
+      for (let i = 0; i < 8; i++) {
+        if (len(allowListProof[i]) > 0n) {
+          if (position % 2n === 1n) {
+            node = sha256(allowListProof[i] + node)
+          } else {
+            node = sha256(node + allowListProof[i])
+          }
+        }
+        position = position / 2n
+      }
+      if (node === this.allowListRoot) {
+        allowed = true
+      }
+    }
+    return allowed
+  }
+
+  @method()
+  private releaseMilestone (): void {
+    this.milestonesReleased++
+    this.status = EscrowContract.STATUS_WORK_STARTED
+    this.workCompletionTime = 0n
+    this.workCompletionDescription = toByteString('')
+  }
+
+  @method()
+  private currentMilestoneAmount (): bigint {
+    let amount = 0n
+    for (let i = 0; i < 5; i++) {
+      if (BigInt(i) === this.milestonesReleased) {
+        amount = this.milestoneAmounts[i]
+      }
+    }
+    return amount
+  }
+
+  @method()
+  private currentDeadline (): bigint {
+    // The work is due by the current milestone's deadline, or the overall deadline without milestones
+    let deadline = this.workCompletionDeadline
+    for (let i = 0; i < 5; i++) {
+      if (BigInt(i) < this.milestoneCount && BigInt(i) === this.milestonesReleased) {
+        deadline = this.milestoneDeadlines[i]
+      }
+    }
+    return deadline
+  }
+
+  @method()
+  private isDisputed (): boolean {
+    return this.status === EscrowContract.STATUS_DISPUTED_BY_SEEKER ||
+      this.status === EscrowContract.STATUS_DISPUTED_BY_FURNISHER
+  }
+
+  @method()
+  private platformFeeIsPaid (): boolean {
+    // The output paired with the contract input must pay the platform its fee
+    const feeOutput = this.platformFeeOutput(this.ctx.utxo.value)
+    return len(feeOutput) === 0n || this.ctx.hashOutputs === hash256(feeOutput)
+  }
+
+  @method()
+  private platformFeeOutput (amount: bigint): ByteString {
+    // The platform's share of an amount paid out, or nothing when the share rounds down to zero
+    const fee = amount * this.escrowServiceFeeBasisPoints / 10000n
+    let feeOutput = toByteString('')
+    if (fee > 0n) {
+      feeOutput = Utils.buildPublicKeyHashOutput(hash160(this.platformKey), fee)
     }
+    return feeOutput
   }
 
   @method()
@@ -0,0 +1,166 @@
+import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Broadcaster, Transaction, CreateActionOutput, LockingScript, PushDrop } from '@bsv/sdk'
+import type { ContributionRecord, EscrowTX, GlobalConfig } from '../constants.js'
+import {
+  bountyIncreaseOpen,
+  callContractMethod,
+  contributionFromLockingScript,
+  contributionPayload,
+  contributionsFromAnswer,
+  recordsFromAnswer,
+  resolveListedContent
+} from '../utils.js'
+import { EscrowContract } from '../contracts/Escrow.js'
+import type { ContentStore } from '../content/ContentStore.js'
+
+const CONTRIBUTIONS_BASKET = 'escrow-contributions'
+
+/**
+ * Funds bounties that anyone may increase. Each contribution raises the bounty on-chain
+ * and leaves a signed record of it in the backer's wallet basket.
+ */
+export default class Backer {
+  private derivedPublicKey: string | null = null
+  private readonly broadcaster: Broadcaster
+  private readonly resolver: LookupResolver
+
+  constructor (
+    private readonly globalConfig: GlobalConfig,
+    private readonly wallet: WalletInterface = new WalletClient('auto', 'localhost'),
+    broadcaster: TopicBroadcaster | 'DEFAULT' = 'DEFAULT',
+    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT',
+    private readonly contentStore?: ContentStore
+  ) {
+    if (broadcaster === 'DEFAULT') {
+      this.broadcaster = new TopicBroadcaster([globalConfig.topic], {
+        networkPreset: globalConfig.networkPreset
+      })
+    } else {
+      this.broadcaster = broadcaster
+    }
+    if (resolver === 'DEFAULT') {
+      this.resolver = new LookupResolver({
+        networkPreset: globalConfig.networkPreset
+      })
+    } else {
+      this.resolver = resolver
+    }
+  }
+
+  /**
+   * Lists the bounties that are still open to contributions from anyone.
+   */
+  async listFundableWork (): Promise<EscrowTX[]> {
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        contractType: 'bounty'
+      }
+    })
+    const fundable = recordsFromAnswer(answer).filter(x => (
+      x.record.contractType === 'bounty' &&
+      x.record.bountyIncreaseAllowanceMode === 'by-anyone' &&
+      bountyIncreaseOpen(x.record)
+    ))
+    return await resolveListedContent(fundable, this.contentStore)
+  }
+
+  /**
+   * Adds to the bounty of a crowdfunded contract.
+   */
+  async contribute (escrow: EscrowTX, amount: number): Promise<void> {
+    await this.populateDerivedPublicKey()
+    if (escrow.record.contractType !== 'bounty' || escrow.record.bountyIncreaseAllowanceMode !== 'by-anyone') {
+      throw new Error('This contract does not accept contributions')
+    }
+    if (!bountyIncreaseOpen(escrow.record)) {
+      throw new Error(`Cannot contribute in current state: ${escrow.record.status}`)
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'increaseBounty',
+      [EscrowContract.BOUNTY_INCREASE_ALLOWED_BY_ANYONE, BigInt(amount), 'WONTSIGN'],
+      escrow.satoshis + amount,
+      [await this.contributionOutput(escrow, amount)]
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Lists the contributions this backer has made, from their wallet basket.
+   */
+  async listContributions (): Promise<ContributionRecord[]> {
+    const { outputs } = await this.wallet.listOutputs({
+      basket: CONTRIBUTIONS_BASKET,
+      include: 'locking scripts',
+      limit: 10000
+    })
+    const results: ContributionRecord[] = []
+    for (const output of outputs) {
+      try {
+        const [txid, outputIndex] = output.outpoint.split('.')
+        results.push(contributionFromLockingScript(
+          txid,
+          Number(outputIndex),
+          LockingScript.fromHex(output.lockingScript ?? '')
+        ))
+      } catch (e) {}
+    }
+    return results
+  }
+
+  /**
+   * Lists every contribution made to a contract by any backer, as tracked by the overlay.
+   */
+  async listContributionsTo (escrow: EscrowTX): Promise<ContributionRecord[]> {
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        find: 'contributions',
+        txid: escrow.record.txid,
+        outputIndex: escrow.record.outputIndex
+      }
+    })
+    return contributionsFromAnswer(answer)
+  }
+
+  /**
+   * The total amount backers have raised for a contract.
+   */
+  async getTotalRaised (escrow: EscrowTX): Promise<number> {
+    const contributions = await this.listContributionsTo(escrow)
+    return contributions.reduce((total, x) => total + x.amount, 0)
+  }
+
+  private async contributionOutput (escrow: EscrowTX, amount: number): Promise<CreateActionOutput> {
+    const backerKey = await this.populateDerivedPublicKey()
+    const lockingScript = await new PushDrop(this.wallet).lock(
+      [contributionPayload(escrow, backerKey, amount)],
+      this.globalConfig.keyDerivationProtocol,
+      '1',
+      'self',
+      true, // Locked to the backer, so the record stays theirs
+      true // Signed, so the overlay can tell who made the contribution
+    )
+    return {
+      satoshis: 1,
+      lockingScript: lockingScript.toHex(),
+      outputDescription: 'Escrow contribution record',
+      basket: CONTRIBUTIONS_BASKET,
+      tags: ['escrow-contribution']
+    }
+  }
+
+  private async populateDerivedPublicKey (): Promise<string> {
+    if (typeof this.derivedPublicKey !== 'string') {
+      const { publicKey } = await this.wallet.getPublicKey({
+        counterparty: 'self',
+        protocolID: this.globalConfig.keyDerivationProtocol,
+        keyID: '1'
+      })
+      this.derivedPublicKey = publicKey
+    }
+    return this.derivedPublicKey
+  }
+}
@@ -1,9 +1,43 @@
-import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Broadcaster, Signature, TransactionSignature, Utils, Transaction, Script } from '@bsv/sdk'
-import { PushDrop } from '@bsv/sdk/script'
-import type { EscrowTX, GlobalConfig } from '../constants.js'
-import { recordsFromAnswer, callContractMethod } from '../utils.js'
+import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Broadcaster, Signature, TransactionSignature, Utils, Transaction, Script, CreateActionOutput, LockingScript, Random, PushDrop } from '@bsv/sdk'
+import type { AllowListProof, BidAcceptanceAuthorization, EscrowQuery, EscrowTX, EscrowVersionRecord, EvidenceCommitment, GlobalConfig, OffChainBidTX, PendingContractCall, SealedBid, StartOfWorkAuthorization, WorkSpec } from '../constants.js'
+import {
+  acceptingBids,
+  allowListProofParams,
+  appealDeadlineFor,
+  bidCommitmentFor,
+  bidExpired,
+  bidsFromAnswer,
+  buildClaimOutputs,
+  buildDisputeResolution,
+  buildSettlementOutputs,
+  callContractMethod,
+  contentForContract,
+  contractBidFromRecord,
+  createPendingContractCall,
+  encodeWorkDescription,
+  evidenceCommitmentsFor,
+  evidenceDeadlineFor,
+  evidenceHashFor,
+  finalizePendingContractCall,
+  furnisherMayBid,
+  lifecycleFromAnswer,
+  noPanelSignatures,
+  offChainBidMessage,
+  offChainBidPayload,
+  OPEN_STATUSES,
+  pendingSettlementTerms,
+  platformFeeFor,
+  presignContractMethod,
+  recordsFromAnswer,
+  resolveListedContent,
+  signDisputeMessage,
+  signPendingContractCall,
+  verifyEvidence
+} from '../utils.js'
 import { PubKey, Sig, toByteString } from 'scrypt-ts'
-import { Bid } from '../contracts/Escrow.js'
+import { Bid, EscrowContract } from '../contracts/Escrow.js'
+import type { ContentStore } from '../content/ContentStore.js'
+import type { DisputeMessenger } from '../messaging/DisputeMessenger.js'
 
 export default class Furnisher {
   private derivedPublicKey: string | null = null
@@ -14,7 +48,9 @@ export default class Furnisher {
     private readonly globalConfig: GlobalConfig,
     private readonly wallet: WalletInterface = new WalletClient('auto', 'localhost'),
     broadcaster: TopicBroadcaster | 'DEFAULT' = 'DEFAULT',
-    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT'
+    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT',
+    private readonly messenger?: DisputeMessenger,
+    private readonly contentStore?: ContentStore
   ) {
     if (broadcaster === 'DEFAULT') {
       this.broadcaster = new TopicBroadcaster([globalConfig.topic], {
@@ -32,8 +68,13 @@ export default class Furnisher {
     }
   }
 
-  async listAvailableWork () {
-    await this.populateDerivedPublicKey()
+  /**
+   * Lists open contracts this furnisher may bid on. Invite-only contracts are hidden
+   * unless the furnisher is on their inline list, or one of the given proofs admits them
+   * to a Merkle allow-list.
+   */
+  async listAvailableWork (allowListProofs: AllowListProof[] = []): Promise<EscrowTX[]> {
+    const furnisherKey = await this.populateDerivedPublicKey()
     const answer = await this.resolver.query({
       service: this.globalConfig.service,
       query: {
@@ -42,26 +83,94 @@ export default class Furnisher {
         find: 'all-open'
       }
     })
-    return recordsFromAnswer(answer)
+    const available = recordsFromAnswer(answer).filter(x => (
+      furnisherMayBid(x.record, furnisherKey) ||
+      allowListProofs.some(proof => furnisherMayBid(x.record, furnisherKey, proof))
+    ))
     // Potentially filter by work type in the future
+    return await resolveListedContent(available, this.contentStore)
   }
 
-  async placeBid (escrow: EscrowTX, amount: number, plans: string, timeRequired: number, bond: number) {
-    await this.populateDerivedPublicKey()
+  /**
+   * Searches work descriptions and bid plans for any of the given words, most relevant
+   * first. Only open contracts are searched unless the filters ask for other statuses.
+   */
+  async searchWork (terms: string, filters: EscrowQuery = {}): Promise<EscrowTX[]> {
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        status: OPEN_STATUSES,
+        ...filters,
+        globalConfig: this.globalConfig,
+        terms,
+        find: 'search'
+      }
+    })
+    return await resolveListedContent(recordsFromAnswer(answer), this.contentStore)
+  }
+
+  /**
+   * Every version of a contract so far, oldest first, with how each one was spent.
+   */
+  async getLifecycle (escrow: EscrowTX): Promise<EscrowVersionRecord[]> {
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        find: 'lifecycle',
+        txid: escrow.record.txid,
+        outputIndex: escrow.record.outputIndex
+      }
+    })
+    return lifecycleFromAnswer(answer)
+  }
+
+  /**
+   * Bids on a contract. Contracts with a Merkle allow-list need the furnisher's proof of
+   * membership, which travels with an off-chain bid so it can be accepted later.
+   *
+   * Given a validity window, in the contract's time unit, the bid can only be accepted
+   * until that long after it is made. Otherwise the offer stands until withdrawn.
+   */
+  async placeBid (escrow: EscrowTX, amount: number, plans: string, timeRequired: number, bond: number, allowListProof?: AllowListProof, validFor?: number): Promise<void> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (!furnisherMayBid(escrow.record, furnisherKey, allowListProof)) {
+      throw new Error('Not invited to bid on this contract')
+    }
+    if (escrow.record.sealedBidding) {
+      throw new Error('Bids on this contract are sealed, use commitBid instead')
+    }
     const lockTime = await this.getCurrentLockTime()
     const bid: Bid = {
-      furnisherKey: PubKey(this.derivedPublicKey!),
-      plans: toByteString(plans, true),
+      furnisherKey: PubKey(furnisherKey),
+      plans: await contentForContract(toByteString(plans, true), this.contentStore),
       bidAmount: BigInt(amount),
       bond: BigInt(bond),
       timeRequired: BigInt(timeRequired),
-      timeOfBid: BigInt(lockTime)
+      timeOfBid: BigInt(lockTime),
+      validUntil: validUntilFor(lockTime, validFor)
+    }
+    if (this.globalConfig.bidMode === 'off-chain') {
+      if (escrow.record.status !== 'initial') {
+        throw new Error(`Cannot place bid in current state: ${escrow.record.status}`)
+      }
+      const { tx } = await this.wallet.createAction({
+        description: 'Place an escrow bid',
+        outputs: [await this.offChainBidOutput(escrow, bid, allowListProof)]
+      })
+      if (tx === undefined) throw new Error('Transaction data missing from create action result')
+      await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+      return
     }
     const { tx } = await callContractMethod(
       this.wallet,
       escrow,
       'furnisherPlacesBid',
-      [this.signatory(), bid, escrow.contract.bids.findIndex(x => x.furnisherKey === escrow.contract.seekerKey)],
+      [
+        this.signatory(),
+        bid,
+        BigInt(escrow.contract.bids.findIndex(x => x.furnisherKey === escrow.contract.seekerKey)),
+        ...allowListProofParams(allowListProof)
+      ],
       escrow.satoshis,
       undefined,
       undefined,
@@ -71,53 +180,408 @@ export default class Furnisher {
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
-  async startWork (escrow: EscrowTX) {
+  /**
+   * Commits to a sealed bid on a contract that takes them. Only a hash of the bid goes
+   * into the contract, so keep the returned SealedBid: it is needed to reveal the bid
+   * once the commit deadline has passed.
+   */
+  async commitBid (escrow: EscrowTX, amount: number, plans: string, timeRequired: number, bond: number, allowListProof?: AllowListProof, validFor?: number): Promise<SealedBid> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (!escrow.record.sealedBidding) {
+      throw new Error('Bids on this contract are not sealed, use placeBid instead')
+    }
+    if (escrow.record.status !== 'initial') {
+      throw new Error(`Cannot commit bid in current state: ${escrow.record.status}`)
+    }
+    if (!furnisherMayBid(escrow.record, furnisherKey, allowListProof)) {
+      throw new Error('Not invited to bid on this contract')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime > escrow.record.commitDeadline) {
+      throw new Error(`Bidding has closed. Deadline: ${escrow.record.commitDeadline}, Current time: ${lockTime}`)
+    }
+    const index = escrow.record.bids.findIndex(x => x.furnisherKey === escrow.record.seekerKey)
+    if (index === -1) {
+      throw new Error('No open bid slots remain on this contract')
+    }
+    const sealed: SealedBid = {
+      bid: {
+        furnisherKey,
+        plans: await contentForContract(toByteString(plans, true), this.contentStore),
+        bidAmount: amount,
+        bond,
+        timeRequired,
+        timeOfBid: lockTime, // The contract records the time of the commitment
+        validUntil: Number(validUntilFor(lockTime, validFor))
+      },
+      salt: Utils.toHex(Random(32))
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherCommitsBid',
+      [
+        this.signatory(),
+        PubKey(furnisherKey),
+        toByteString(bidCommitmentFor(sealed.bid, sealed.salt)),
+        BigInt(index),
+        ...allowListProofParams(allowListProof)
+      ],
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+    return sealed
+  }
+
+  /**
+   * Reveals a sealed bid made with commitBid. This has to happen after the commit
+   * deadline and no later than the reveal deadline, or the bid is discarded.
+   */
+  async revealBid (escrow: EscrowTX, sealed: SealedBid): Promise<void> {
     await this.populateDerivedPublicKey()
+    if (escrow.record.status !== 'initial' && escrow.record.status !== 'revealing-bids') {
+      throw new Error(`Cannot reveal bid in current state: ${escrow.record.status}`)
+    }
+    const index = escrow.record.bids.findIndex((x, i) => (
+      x.furnisherKey === this.derivedPublicKey && escrow.record.bidCommitments[i] !== ''
+    ))
+    if (index === -1) {
+      throw new Error('No sealed bid from this furnisher found on the contract')
+    }
+    if (escrow.record.bidCommitments[index] !== bidCommitmentFor(sealed.bid, sealed.salt)) {
+      throw new Error('Sealed bid does not match the commitment on the contract')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime <= escrow.record.commitDeadline) {
+      throw new Error(`Bidding is still open. Deadline: ${escrow.record.commitDeadline}, Current time: ${lockTime}`)
+    }
+    if (lockTime > escrow.record.revealDeadline) {
+      throw new Error(`Reveal period has ended. Deadline: ${escrow.record.revealDeadline}, Current time: ${lockTime}`)
+    }
     const { tx } = await callContractMethod(
       this.wallet,
       escrow,
-      'furnisherStartsWork',
-      [this.signatory()],
+      'furnisherRevealsBid',
+      [this.signatory(), contractBidFromRecord(sealed.bid), toByteString(sealed.salt), BigInt(index)],
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  async withdrawBid (escrow: EscrowTX): Promise<void> {
+    await this.populateDerivedPublicKey()
+    if (this.globalConfig.bidMode === 'off-chain') {
+      await this.spendOffChainBid(await this.findOwnOffChainBid(escrow), [])
+      return
+    }
+    const bidIndex = this.findOwnBidIndex(escrow)
+    const lockTime = await this.getCurrentLockTime()
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherWithdrawsBid',
+      [this.signatory(), BigInt(bidIndex)],
+      escrow.satoshis, // Same satoshis, the slot is simply freed
+      [],
+      0xfffffffe,
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  async amendBid (escrow: EscrowTX, amount: number, plans: string, timeRequired: number, bond: number, validFor?: number): Promise<void> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (escrow.record.sealedBidding) {
+      throw new Error('Sealed bids cannot be amended')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    const bid: Bid = {
+      furnisherKey: PubKey(furnisherKey),
+      plans: await contentForContract(toByteString(plans, true), this.contentStore),
+      bidAmount: BigInt(amount),
+      bond: BigInt(bond),
+      timeRequired: BigInt(timeRequired),
+      timeOfBid: BigInt(lockTime),
+      validUntil: validUntilFor(lockTime, validFor)
+    }
+    if (this.globalConfig.bidMode === 'off-chain') {
+      // The old bid is spent and replaced in the same transaction
+      const existing = await this.findOwnOffChainBid(escrow)
+      await this.spendOffChainBid(existing, [await this.offChainBidOutput(escrow, bid, existing.record.allowListProof)])
+      return
+    }
+    const bidIndex = this.findOwnBidIndex(escrow)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherAmendsBid',
+      [this.signatory(), bid, BigInt(bidIndex)],
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Signs for the seeker or the platform to accept this furnisher's off-chain bid on the
+   * contract as it stands now. They pass the result to acceptBid, which must spend the
+   * exact contract output it was issued for, at the lock time it was issued at.
+   */
+  async authorizeBidAcceptance (escrow: EscrowTX, acceptedBy: BidAcceptanceAuthorization['acceptedBy']): Promise<BidAcceptanceAuthorization> {
+    await this.populateDerivedPublicKey()
+    if (escrow.record.status !== 'initial') {
+      throw new Error(`Cannot authorize bid acceptance in current state: ${escrow.record.status}`)
+    }
+    if (escrow.record.approvalMode !== 'seeker-or-platform' && escrow.record.approvalMode !== acceptedBy) {
+      throw new Error(`Bids on this contract are accepted by the ${escrow.record.approvalMode}`)
+    }
+    const { record } = await this.findOwnOffChainBid(escrow)
+    const lockTime = await this.getCurrentLockTime()
+    if (bidExpired(record.bid, lockTime)) {
+      throw new Error('Bid has expired')
+    }
+    const furnisherSignature = await presignContractMethod(
+      escrow,
+      'acceptOffChainBid',
+      [
+        acceptedBy === 'seeker' ? EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER : EscrowContract.FURNISHER_APPROVAL_MODE_PLATFORM,
+        'WONTSIGN', // sig (added by whoever accepts)
+        contractBidFromRecord(record.bid),
+        'WONTSIGN', // furnisherSig (this signature)
+        ...allowListProofParams(record.allowListProof)
+      ],
+      this.signatory(),
+      escrow.record.contractType === 'bid' ? record.bid.bidAmount : escrow.satoshis,
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    return {
+      txid: escrow.record.txid,
+      outputIndex: escrow.record.outputIndex,
+      acceptedBy,
+      lockTime,
+      furnisherSignature
+    }
+  }
+
+  async startWork (escrow: EscrowTX, authorization?: StartOfWorkAuthorization): Promise<void> {
+    await this.populateDerivedPublicKey()
+    if (!escrow.record.platformAuthorizationRequired) {
+      const { tx } = await callContractMethod(
+        this.wallet,
+        escrow,
+        'furnisherStartsWork',
+        [this.signatory()],
+        escrow.satoshis + Number(escrow.contract.acceptedBid.bond)
+      )
+      if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+      await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+      return
+    }
+
+    // The platform signed ahead of time for this exact contract output
+    if (authorization === undefined) {
+      throw new Error('Platform authorization is required to start work on this contract')
+    }
+    if (authorization.txid !== escrow.record.txid || authorization.outputIndex !== escrow.record.outputIndex) {
+      throw new Error('Platform authorization was issued for a different contract output')
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherStartsWorkWithPlatformAuthorization',
+      [this.signatory(), Sig(toByteString(authorization.platformSignature))],
       escrow.satoshis + Number(escrow.contract.acceptedBid.bond)
     )
     if (!tx) throw new Error('Transaction data missing from sign action result')
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
-  async completeWork (escrow: EscrowTX, workCompletionDescriptor: string) {
+  async completeWork (escrow: EscrowTX, workCompletionDescriptor: string | WorkSpec): Promise<void> {
     await this.populateDerivedPublicKey()
+    const lockTime = await this.getCurrentLockTime()
+    const description = await contentForContract(encodeWorkDescription(workCompletionDescriptor), this.contentStore)
     const { tx } = await callContractMethod(
       this.wallet,
       escrow,
       'furnisherSubmitsWork',
-      [this.signatory(), toByteString(workCompletionDescriptor)],
-      escrow.satoshis
+      [this.signatory(), description, escrow.contract.acceptedBid, ...allowListProofParams()], // The ad-hoc bid and proof are unused outside race mode
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
     )
-    if (!tx) throw new Error('Transaction data missing from sign action result')
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
-  async claimBounty (escrow: EscrowTX) {
+  /**
+   * Submits the milestone currently being worked on for the seeker's approval.
+   */
+  async submitMilestone (escrow: EscrowTX, workCompletionDescriptor: string | WorkSpec): Promise<void> {
     await this.populateDerivedPublicKey()
+    if (escrow.record.milestones.length === 0) {
+      throw new Error('This contract has no milestones')
+    }
+    if (escrow.record.status !== 'work-started') {
+      throw new Error(`Cannot submit milestone in current state: ${escrow.record.status}`)
+    }
+    if (escrow.record.acceptedBid.furnisherKey !== this.derivedPublicKey) {
+      throw new Error('Cannot submit a milestone on work accepted from another furnisher')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    const description = await contentForContract(encodeWorkDescription(workCompletionDescriptor), this.contentStore)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherSubmitsMilestone',
+      [this.signatory(), description],
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Disputes a submitted milestone the seeker has neither approved nor disputed within
+   * the approval delay. The dispute covers whatever is still held in the contract.
+   */
+  async disputeMilestone (escrow: EscrowTX, evidence?: number[]): Promise<void> {
+    if (escrow.record.milestones.length === 0) {
+      throw new Error('This contract has no milestones')
+    }
+    await this.raiseDispute(escrow, evidence)
+  }
+
+  /**
+   * Submits a solution to a bounty that anyone may solve without approval. The first
+   * valid submission claims the contract, posting the required bond alongside it.
+   */
+  async submitRaceSolution (escrow: EscrowTX, workCompletionDescription: string | WorkSpec, allowListProof?: AllowListProof): Promise<void> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (!furnisherMayBid(escrow.record, furnisherKey, allowListProof)) {
+      throw new Error('Not invited to solve this bounty')
+    }
+
+    // Only open race-mode bounties accept direct submissions
+    if (escrow.record.contractType !== 'bounty' || escrow.record.bountySolversNeedApproval) {
+      throw new Error('Contract does not accept race-mode submissions')
+    }
+    if (escrow.record.status !== 'initial') {
+      throw new Error(`Cannot submit solution in current state: ${escrow.record.status}`)
+    }
+
+    // The bid is timestamped with the lock time, which must use the contract's time unit
+    const lockTime = await this.getCurrentLockTime()
+    if (escrow.record.delayUnit === 'blocks' ? lockTime >= 500000000 : lockTime <= 500000000) {
+      throw new Error(`Current lock time ${lockTime} does not use the contract's time unit (${escrow.record.delayUnit})`)
+    }
+
+    const adHocBid: Bid = {
+      furnisherKey: PubKey(furnisherKey),
+      plans: toByteString(''),
+      bidAmount: BigInt(escrow.satoshis),
+      bond: BigInt(escrow.record.requiredBondAmount),
+      timeRequired: 0n,
+      timeOfBid: BigInt(lockTime),
+      validUntil: 0n
+    }
+    const description = await contentForContract(encodeWorkDescription(workCompletionDescription), this.contentStore)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherSubmitsWork',
+      [this.signatory(), description, adHocBid, ...allowListProofParams(allowListProof)],
+      escrow.satoshis + escrow.record.requiredBondAmount, // Bounty plus our bond
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  async claimBounty (escrow: EscrowTX) {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (escrow.record.status !== 'resolved') {
+      throw new Error(`Cannot claim payment in current state: ${escrow.record.status}`)
+    }
+    if (escrow.record.acceptedBid.furnisherKey !== furnisherKey) {
+      throw new Error('Cannot claim payment for work accepted from another furnisher')
+    }
     const { tx } = await callContractMethod(
       this.wallet,
       escrow,
-      'furnisherClaimsPayment',
-      [this.signatory()]
+      platformFeeFor(escrow) > 0 ? 'furnisherClaimsPaymentWithFee' : 'furnisherClaimsPayment',
+      [this.signatory()],
+      undefined, // No next contract output, the payment is split between the platform and us
+      buildClaimOutputs(escrow, furnisherKey)
     )
     if (!tx) throw new Error('Transaction data missing from sign action result')
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
-  async raiseDispute (record: EscrowTX) {
+  /**
+   * Claims payment for submitted work that the seeker has not approved or disputed within
+   * the approval window, on contracts where that releases the payment.
+   */
+  async claimAfterApprovalTimeout (escrow: EscrowTX): Promise<void> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (escrow.record.status !== 'work-submitted') {
+      throw new Error(`Cannot claim payment in current state: ${escrow.record.status}`)
+    }
+    if (!escrow.record.approvalTimeoutReleasesPayment) {
+      throw new Error('Payment is not released on approval timeout for this contract, raise a dispute instead')
+    }
+    if (escrow.record.milestones.length > 0 && escrow.record.milestonesReleased !== escrow.record.milestones.length - 1) {
+      throw new Error('Only the last milestone is released on approval timeout, raise a dispute instead')
+    }
+    if (escrow.record.acceptedBid.furnisherKey !== furnisherKey) {
+      throw new Error('Cannot claim payment for work submitted by another furnisher')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    const approvalDeadline = escrow.record.workCompletionTime + escrow.record.maxWorkApprovalDelay
+    if (lockTime <= approvalDeadline) {
+      throw new Error(`Seeker approval deadline has not yet expired. Deadline: ${approvalDeadline}, Current time: ${lockTime}`)
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherClaimsAfterApprovalTimeout',
+      [this.signatory()],
+      undefined, // No next contract output, the payment is split between the platform and us
+      buildClaimOutputs(escrow, furnisherKey),
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  async raiseDispute (record: EscrowTX, evidence?: number[]): Promise<void> {
     // Verify state is work-submitted
     if (record.record.status !== 'work-submitted') {
       throw new Error(`Cannot raise dispute in current state: ${record.record.status}`)
     }
 
     // Ensure this is our work (furnisher key matches)
-    await this.populateDerivedPublicKey()
-    if (record.contract.acceptedBid.furnisherKey.toString() !== this.derivedPublicKey) {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (record.contract.acceptedBid.furnisherKey.toString() !== furnisherKey) {
       throw new Error('Cannot raise dispute on work submitted by another furnisher')
     }
 
@@ -135,7 +599,7 @@ export default class Furnisher {
       this.wallet,
       record,
       'furnisherRaisesDispute',
-      [this.signatory()],
+      [this.signatory(), toByteString(evidence === undefined ? '' : evidenceHashFor(evidence))],
       record.satoshis, // Same satoshis (no payout yet, just state change)
       [],
       0xfffffffe, // Enable locktime
@@ -145,13 +609,67 @@ export default class Furnisher {
     if (!tx) throw new Error('Transaction data missing from sign action result')
 
     // Broadcast to overlay network to update UTXO
+    const disputeTx = Transaction.fromAtomicBEEF(tx)
+    await this.broadcaster.broadcast(disputeTx)
+
+    // Let the platform know, with the evidence, instead of waiting for it to poll the overlay
+    if (this.messenger !== undefined) {
+      const message = await signDisputeMessage(this.wallet, this.globalConfig, record.record.platformKey, {
+        txid: disputeTx.id('hex'),
+        outputIndex: 0,
+        role: 'furnisher',
+        senderKey: furnisherKey,
+        evidence
+      })
+      await this.messenger.send(record.record.platformKey, message)
+    }
+  }
+
+  /**
+   * Anchors the hash of the furnisher's evidence bundle in a disputed contract. Evidence
+   * already committed when raising the dispute cannot be replaced.
+   */
+  async submitEvidence (escrow: EscrowTX, evidence: number[]): Promise<void> {
+    if (escrow.record.status !== 'disputed-by-seeker' && escrow.record.status !== 'disputed-by-furnisher') {
+      throw new Error(`Cannot submit evidence in current state: ${escrow.record.status}`)
+    }
+    await this.populateDerivedPublicKey()
+    if (escrow.record.acceptedBid.furnisherKey !== this.derivedPublicKey) {
+      throw new Error('Only the furnisher in the dispute can submit evidence')
+    }
+    if (escrow.record.furnisherEvidenceHash !== '') {
+      throw new Error('Evidence has already been submitted')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime > evidenceDeadlineFor(escrow.record)) {
+      throw new Error('Evidence period has ended')
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherSubmitsEvidence',
+      [this.signatory(), toByteString(evidenceHashFor(evidence))],
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
 
-    // TODO: Notify platform about dispute for resolution
-    // This would typically involve:
-    // - Creating a dispute record
-    // - Sending to platform's dispute resolution service
-    // - Storing dispute details locally for tracking
+  /**
+   * Lists the evidence hashes both parties have anchored in a disputed contract.
+   */
+  listEvidence (escrow: EscrowTX): EvidenceCommitment[] {
+    return evidenceCommitmentsFor(escrow.record)
+  }
+
+  /**
+   * Checks an evidence bundle received off-chain against the hash its party anchored.
+   */
+  verifyEvidence (escrow: EscrowTX, party: 'seeker' | 'furnisher', evidence: number[]): boolean {
+    return verifyEvidence(escrow.record, party, evidence)
   }
 
   async listDisputes (active?: boolean): Promise<{ active: EscrowTX[], historical: any[] }> {
@@ -247,6 +765,123 @@ export default class Furnisher {
     return result
   }
 
+  /**
+   * Appeals a provisional ruling to the contract's appeal arbiter, before the appeal
+   * period ends. The arbiter's ruling replaces it and is final.
+   */
+  async appealRuling (escrow: EscrowTX): Promise<void> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (escrow.record.acceptedBid.furnisherKey !== furnisherKey) {
+      throw new Error('Cannot appeal a ruling on work submitted by another furnisher')
+    }
+    if (escrow.record.status !== 'provisionally-resolved') {
+      throw new Error(`Cannot appeal in current state: ${escrow.record.status}`)
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime > appealDeadlineFor(escrow.record)) {
+      throw new Error(`Appeal period has ended. Deadline: ${appealDeadlineFor(escrow.record)}, Current time: ${lockTime}`)
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'furnisherAppeals',
+      [this.signatory()],
+      escrow.satoshis, // Same satoshis (no payout yet, just state change)
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    const appealTx = Transaction.fromAtomicBEEF(tx)
+    await this.broadcaster.broadcast(appealTx)
+
+    if (this.messenger !== undefined) {
+      const message = await signDisputeMessage(this.wallet, this.globalConfig, escrow.record.appealKey, {
+        txid: appealTx.id('hex'),
+        outputIndex: 0,
+        role: 'furnisher',
+        senderKey: furnisherKey
+      })
+      await this.messenger.send(escrow.record.appealKey, message)
+    }
+  }
+
+  /**
+   * Carries out a provisional ruling nobody appealed, once the appeal period has ended.
+   */
+  async finalizeRuling (escrow: EscrowTX): Promise<void> {
+    if (escrow.record.status !== 'provisionally-resolved') {
+      throw new Error(`Cannot finalize ruling in current state: ${escrow.record.status}`)
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime <= appealDeadlineFor(escrow.record)) {
+      throw new Error(`Appeal period has not ended. Deadline: ${appealDeadlineFor(escrow.record)}, Current time: ${lockTime}`)
+    }
+    // The contract builds the platform fee output itself on every ruling, so none is passed in
+    const { nextOutputAmount, outputs } = buildDisputeResolution(escrow, escrow.record.rulingAmountForSeeker, escrow.record.rulingAmountForFurnisher)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'finalizeRuling',
+      [toByteString('')], // otherOutputs
+      nextOutputAmount, // Only a reopened contract has a next state output
+      outputs,
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Proposes splitting a disputed contract without a platform decision, so no platform
+   * fee is paid. This wallet pays the transaction fee up front. The returned pending call
+   * goes to the other party for acceptSettlement, after which either party can finalize it.
+   */
+  async proposeSettlement (escrow: EscrowTX, amountForSeeker: number, amountForFurnisher: number): Promise<PendingContractCall> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    if (escrow.record.acceptedBid.furnisherKey !== furnisherKey) {
+      throw new Error('Cannot settle a dispute on work submitted by another furnisher')
+    }
+    if (escrow.record.status !== 'disputed-by-seeker' && escrow.record.status !== 'disputed-by-furnisher') {
+      throw new Error(`Cannot settle in current state: ${escrow.record.status}`)
+    }
+    if (amountForSeeker < 0 || amountForFurnisher < 0 || amountForSeeker + amountForFurnisher < escrow.satoshis) {
+      throw new Error('Settlement must distribute the full contract balance')
+    }
+    return await createPendingContractCall(
+      this.wallet,
+      escrow,
+      'resolveDispute',
+      [
+        0n, // platformResolves = false
+        BigInt(amountForSeeker),
+        BigInt(amountForFurnisher),
+        toByteString(''), // otherOutputs
+        'WONTSIGN', // platformSig (not needed)
+        { signerKey: escrow.record.seekerKey }, // seekerSig
+        this.signatory(), // furnisherSig
+        noPanelSignatures() // panelSigs (not needed)
+      ],
+      furnisherKey,
+      this.signatory(), // Signs for the fee this wallet pays up front
+      undefined, // No next state output (contract destroyed)
+      buildSettlementOutputs(escrow.record, amountForSeeker, amountForFurnisher)
+    )
+  }
+
+  async acceptSettlement (escrow: EscrowTX, pending: PendingContractCall): Promise<PendingContractCall> {
+    const furnisherKey = await this.populateDerivedPublicKey()
+    // Fails unless the transaction pays exactly the amounts being agreed to
+    pendingSettlementTerms(escrow, pending)
+    return await signPendingContractCall(escrow, pending, furnisherKey, this.signatory())
+  }
+
+  async finalizeSettlement (escrow: EscrowTX, pending: PendingContractCall): Promise<void> {
+    pendingSettlementTerms(escrow, pending)
+    await this.broadcaster.broadcast(finalizePendingContractCall(escrow, pending))
+  }
+
   async claimAfterDispute (record: EscrowTX): Promise<void> {
     await this.populateDerivedPublicKey()
 
@@ -267,13 +902,17 @@ export default class Furnisher {
     // Note: The Platform.decideDispute() method creates P2PKH outputs locked to
     // the seeker's and furnisher's public keys. The wallet automatically recognizes
     // and tracks these incoming P2PKH outputs, making them immediately spendable.
-    // The overlay network deletes spent UTXOs, so we cannot query for the resolution
-    // transaction. Instead, we trust that the wallet has received the payout.
+    // The overlay archives every version of the contract, so the resolution transaction
+    // can be looked up once the overlay has seen it. The payout itself needs no lookup.
+    const resolutionTxid = await this.getLifecycle(record)
+      .then(versions => versions.find(x => x.txid === record.record.txid && x.outputIndex === record.record.outputIndex)?.spendingTxid)
+      .catch(() => undefined)
 
     // Record dispute resolution in basket for history tracking
     const disputeRecord = {
       escrowTxid: record.record.txid,
       escrowOutputIndex: record.record.outputIndex,
+      resolutionTxid,
       seekerKey: record.record.seekerKey,
       furnisherKey: record.record.acceptedBid.furnisherKey,
       platformKey: record.record.platformKey,
@@ -322,7 +961,100 @@ export default class Furnisher {
     console.log('Dispute resolution recorded. Payout outputs are available in wallet.')
   }
 
-  private async populateDerivedPublicKey () {
+  private findOwnBidIndex (escrow: EscrowTX): number {
+    // Bids can only be changed while the contract is still open for bidding
+    if (escrow.record.status !== 'initial' && !acceptingBids(escrow.record)) {
+      throw new Error(`Cannot change bid in current state: ${escrow.record.status}`)
+    }
+    const bidIndex = escrow.record.bids.findIndex(x => x.furnisherKey === this.derivedPublicKey)
+    if (bidIndex === -1) {
+      throw new Error('No bid from this furnisher found on the contract')
+    }
+    return bidIndex
+  }
+
+  private async findOwnOffChainBid (escrow: EscrowTX): Promise<OffChainBidTX> {
+    if (escrow.record.status !== 'initial') {
+      throw new Error(`Cannot change bid in current state: ${escrow.record.status}`)
+    }
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        find: 'bids',
+        txid: escrow.record.txid,
+        outputIndex: escrow.record.outputIndex
+      }
+    })
+    const existing = bidsFromAnswer(answer).find(x => x.record.bid.furnisherKey === this.derivedPublicKey)
+    if (existing === undefined) {
+      throw new Error('No bid from this furnisher found on the contract')
+    }
+    return existing
+  }
+
+  private async offChainBidOutput (escrow: EscrowTX, bid: Bid, allowListProof?: AllowListProof): Promise<CreateActionOutput> {
+    const offChainBid = {
+      furnisherKey: bid.furnisherKey,
+      plans: bid.plans,
+      bidAmount: Number(bid.bidAmount),
+      bond: Number(bid.bond),
+      timeOfBid: Number(bid.timeOfBid),
+      timeRequired: Number(bid.timeRequired),
+      validUntil: Number(bid.validUntil)
+    }
+    const { signature } = await this.wallet.createSignature({
+      protocolID: this.globalConfig.keyDerivationProtocol,
+      keyID: '1',
+      counterparty: 'self',
+      data: offChainBidMessage(escrow.record, escrow.record.txid, escrow.record.outputIndex, offChainBid)
+    })
+    const lockingScript = await new PushDrop(this.wallet).lock(
+      [offChainBidPayload(escrow, offChainBid, Utils.toHex(signature), allowListProof)],
+      this.globalConfig.keyDerivationProtocol,
+      '1',
+      'self',
+      true, // Locked to the same key that makes the bid, so it can be withdrawn later
+      true // Signed, so the overlay and the seeker can tell it really came from us
+    )
+    return {
+      satoshis: 1,
+      lockingScript: lockingScript.toHex(),
+      outputDescription: 'Off-chain escrow bid'
+    }
+  }
+
+  private async spendOffChainBid (existing: OffChainBidTX, outputs: CreateActionOutput[]): Promise<void> {
+    const { signableTransaction } = await this.wallet.createAction({
+      description: outputs.length === 0 ? 'Withdraw an escrow bid' : 'Amend an escrow bid',
+      inputBEEF: existing.beef,
+      inputs: [{
+        outpoint: `${existing.record.txid}.${existing.record.outputIndex}`,
+        unlockingScriptLength: 73,
+        inputDescription: 'Off-chain escrow bid'
+      }],
+      outputs
+    })
+    if (signableTransaction === undefined) throw new Error('Signable transaction missing from create action result')
+    const unlockingScript = await new PushDrop(this.wallet).unlock(
+      this.globalConfig.keyDerivationProtocol,
+      '1',
+      'self',
+      'all',
+      false,
+      existing.satoshis,
+      LockingScript.fromHex(existing.script)
+    ).sign(Transaction.fromAtomicBEEF(signableTransaction.tx), 0)
+    const { tx } = await this.wallet.signAction({
+      reference: signableTransaction.reference,
+      spends: {
+        0: { unlockingScript: unlockingScript.toHex() }
+      }
+    })
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  private async populateDerivedPublicKey (): Promise<string> {
     if (typeof this.derivedPublicKey !== 'string') {
       const { publicKey } = await this.wallet.getPublicKey({
         counterparty: 'self',
@@ -331,6 +1063,7 @@ export default class Furnisher {
       })
       this.derivedPublicKey = publicKey
     }
+    return this.derivedPublicKey
   }
 
   private signatory () {
@@ -356,3 +1089,11 @@ export default class Furnisher {
     }
   }
 }
+
+const validUntilFor = (lockTime: number, validFor?: number): bigint => {
+  if (validFor === undefined) return 0n
+  if (!Number.isInteger(validFor) || validFor <= 0) {
+    throw new Error('Bid validity window must be a positive integer')
+  }
+  return BigInt(lockTime + validFor)
+}
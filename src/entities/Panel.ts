@@ -0,0 +1,197 @@
+import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Broadcaster, TransactionSignature, Signature, Utils } from '@bsv/sdk'
+import type { EscrowTX, GlobalConfig, PendingContractCall } from '../constants.js'
+import {
+  buildDisputeResolution,
+  createPendingContractCall,
+  evidenceDeadlineFor,
+  finalizePendingContractCall,
+  noPanelSignatures,
+  pendingRulingTerms,
+  pendingSignatureSlots,
+  recordsFromAnswer,
+  resolveListedContent,
+  signPendingContractCall
+} from '../utils.js'
+import { Sig, toByteString } from 'scrypt-ts'
+import { EscrowContract } from '../contracts/Escrow.js'
+import type { ContentStore } from '../content/ContentStore.js'
+import escrowArtifact from '../../artifacts/Escrow.json' with { type: 'json' }
+EscrowContract.loadArtifact(escrowArtifact)
+
+/**
+ * One arbiter on a dispute panel. Contracts created with a panel in their GlobalConfig
+ * need the signatures of at least `threshold` of its arbiters to decide a dispute.
+ *
+ * One arbiter proposes a ruling, which funds the transaction and signs for them. The
+ * pending call then passes between the other arbiters for sign(), and comes back to the
+ * proposer for finalize() once enough of them have signed.
+ */
+export default class Panel {
+  private derivedPublicKey: string | null = null
+  private readonly broadcaster: Broadcaster
+  private readonly resolver: LookupResolver
+
+  constructor (
+    private readonly globalConfig: GlobalConfig,
+    private readonly wallet: WalletInterface = new WalletClient('auto', 'localhost'),
+    broadcaster: TopicBroadcaster | 'DEFAULT' = 'DEFAULT',
+    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT',
+    private readonly contentStore?: ContentStore
+  ) {
+    if (broadcaster === 'DEFAULT') {
+      this.broadcaster = new TopicBroadcaster([globalConfig.topic], {
+        networkPreset: globalConfig.networkPreset
+      })
+    } else {
+      this.broadcaster = broadcaster
+    }
+    if (resolver === 'DEFAULT') {
+      this.resolver = new LookupResolver({
+        networkPreset: globalConfig.networkPreset
+      })
+    } else {
+      this.resolver = resolver
+    }
+  }
+
+  /**
+   * Lists the disputed contracts this arbiter sits on the panel for.
+   */
+  async listActiveDisputes (): Promise<EscrowTX[]> {
+    const panelKey = await this.populateDerivedPublicKey()
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        platformKey: this.globalConfig.platformKey,
+        find: 'all-disputed'
+      }
+    })
+    const disputes = recordsFromAnswer(answer).filter(x => x.record.panelKeys.includes(panelKey))
+    return await resolveListedContent(disputes, this.contentStore)
+  }
+
+  /**
+   * Proposes a ruling on a disputed contract, signed by this arbiter. The returned pending
+   * call goes to the other arbiters for sign().
+   */
+  async propose (escrow: EscrowTX, amountForSeeker: number, amountForFurnisher: number): Promise<PendingContractCall> {
+    const panelKey = await this.populateDerivedPublicKey()
+    this.verifyArbiter(escrow, panelKey)
+    if (escrow.record.status !== 'disputed-by-seeker' && escrow.record.status !== 'disputed-by-furnisher') {
+      throw new Error(`Cannot rule in current state: ${escrow.record.status}`)
+    }
+
+    // Unless both sides have already committed their evidence, wait out the evidence period
+    const lockTime = await this.getCurrentLockTime()
+    const evidenceComplete = escrow.record.seekerEvidenceHash !== '' && escrow.record.furnisherEvidenceHash !== ''
+    if (!evidenceComplete && lockTime <= evidenceDeadlineFor(escrow.record)) {
+      throw new Error(`Evidence period has not ended. Deadline: ${evidenceDeadlineFor(escrow.record)}, Current time: ${lockTime}`)
+    }
+
+    const { nextOutputAmount, outputs } = buildDisputeResolution(escrow, amountForSeeker, amountForFurnisher)
+    // Slots past the end of the panel are never checked, so they stay empty
+    const panelSigs = noPanelSignatures().map((empty, i) => {
+      const arbiterKey = escrow.record.panelKeys[i]
+      if (arbiterKey === undefined) return empty
+      return arbiterKey === panelKey ? this.signatory() : { signerKey: arbiterKey, optional: true }
+    })
+    return await createPendingContractCall(
+      this.wallet,
+      escrow,
+      'resolveDispute',
+      [
+        1n, // platformResolves = true
+        BigInt(amountForSeeker),
+        BigInt(amountForFurnisher),
+        toByteString(''), // otherOutputs
+        'WONTSIGN', // platformSig (not needed)
+        'WONTSIGN', // seekerSig (not needed)
+        'WONTSIGN', // furnisherSig (not needed)
+        panelSigs
+      ],
+      panelKey,
+      this.signatory(), // Signs for the fee this wallet pays up front
+      nextOutputAmount, // Only a reopened contract has a next state output
+      outputs,
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+  }
+
+  /**
+   * Adds this arbiter's signature to a proposed ruling, after checking that the
+   * transaction pays out what the ruling says.
+   */
+  async sign (escrow: EscrowTX, pending: PendingContractCall): Promise<PendingContractCall> {
+    const panelKey = await this.populateDerivedPublicKey()
+    this.verifyArbiter(escrow, panelKey)
+    pendingRulingTerms(escrow, pending)
+    return await signPendingContractCall(escrow, pending, panelKey, this.signatory())
+  }
+
+  /**
+   * How many arbiters have signed a proposed ruling so far.
+   */
+  countSignatures (pending: PendingContractCall): number {
+    return pendingSignatureSlots(pending.params).filter(x => x.signature !== undefined).length
+  }
+
+  /**
+   * Broadcasts a ruling once enough arbiters have signed it. Any arbiter can finalize it,
+   * since the arbiter that proposed the ruling paid its fee up front.
+   */
+  async finalize (escrow: EscrowTX, pending: PendingContractCall): Promise<void> {
+    const panelKey = await this.populateDerivedPublicKey()
+    this.verifyArbiter(escrow, panelKey)
+    pendingRulingTerms(escrow, pending)
+    const signatures = this.countSignatures(pending)
+    if (signatures < escrow.record.panelThreshold) {
+      throw new Error(`Ruling has ${signatures} of the ${escrow.record.panelThreshold} arbiter signatures it needs`)
+    }
+    await this.broadcaster.broadcast(finalizePendingContractCall(escrow, pending))
+  }
+
+  async getCurrentLockTime (): Promise<number> {
+    if (this.globalConfig.delayUnit === 'blocks') {
+      const { height } = await this.wallet.getHeight({})
+      return height
+    } else {
+      return Math.floor(Date.now() / 1000)
+    }
+  }
+
+  private verifyArbiter (escrow: EscrowTX, panelKey: string): void {
+    if (escrow.record.panelThreshold === 0) {
+      throw new Error('This contract has no arbiter panel')
+    }
+    if (!escrow.record.panelKeys.includes(panelKey)) {
+      throw new Error('Not an arbiter on this contract\'s panel')
+    }
+  }
+
+  private signatory () {
+    return async (preimageHash: number[], scope: number): Promise<Sig> => {
+      const { signature } = await this.wallet.createSignature({
+        protocolID: [2, this.globalConfig.keyDerivationProtocol[1]],
+        keyID: '1',
+        counterparty: 'self',
+        data: preimageHash
+      })
+      const rawSignature = Signature.fromDER(signature)
+      const txSig = new TransactionSignature(rawSignature.r, rawSignature.s, scope)
+      return Sig(toByteString(Utils.toHex(txSig.toChecksigFormat())))
+    }
+  }
+
+  private async populateDerivedPublicKey (): Promise<string> {
+    if (typeof this.derivedPublicKey !== 'string') {
+      const { publicKey } = await this.wallet.getPublicKey({
+        counterparty: 'self',
+        protocolID: [2, this.globalConfig.keyDerivationProtocol[1]],
+        keyID: '1'
+      })
+      this.derivedPublicKey = publicKey
+    }
+    return this.derivedPublicKey
+  }
+}
@@ -1,9 +1,29 @@
-import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Transaction, TransactionSignature, Signature, Utils, Broadcaster, Script } from '@bsv/sdk'
-import { P2PKH, PushDrop } from '@bsv/sdk/script'
-import type { EscrowRecord, EscrowTX, GlobalConfig } from '../constants.js'
-import { callContractMethod, recordsFromAnswer } from '../utils.js'
+import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Transaction, TransactionSignature, Signature, Utils, Broadcaster, Script, PushDrop } from '@bsv/sdk'
+import type { Bid, BidAcceptanceAuthorization, DisputeDecision, DisputeMessage, EscrowRecord, EscrowTX, EscrowVersionRecord, EvidenceCommitment, GlobalConfig, OffChainBidTX, StartOfWorkAuthorization } from '../constants.js'
+import {
+  acceptingBids,
+  allowListProofParams,
+  bidExpired,
+  bidsFromAnswer,
+  bountyIncreaseOpen,
+  buildDisputeResolution,
+  callContractMethod,
+  contractBidFromRecord,
+  evidenceCommitmentsFor,
+  evidenceDeadlineFor,
+  lifecycleFromAnswer,
+  noPanelSignatures,
+  offChainBidSigned,
+  presignContractMethod,
+  recordsFromAnswer,
+  resolveListedContent,
+  verifyBidAcceptanceAuthorization,
+  verifyEvidence
+} from '../utils.js'
 import { PubKey, Sig, toByteString } from 'scrypt-ts'
 import { EscrowContract } from '../contracts/Escrow.js'
+import type { ContentStore } from '../content/ContentStore.js'
+import type { DisputeMessenger } from '../messaging/DisputeMessenger.js'
 import escrowArtifact from '../../artifacts/Escrow.json' with { type: 'json' }
 EscrowContract.loadArtifact(escrowArtifact)
 
@@ -16,7 +36,9 @@ export default class Platform {
     private readonly globalConfig: GlobalConfig,
     private readonly wallet: WalletInterface = new WalletClient('auto', 'localhost'),
     broadcaster: TopicBroadcaster | 'DEFAULT' = 'DEFAULT',
-    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT'
+    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT',
+    private readonly messenger?: DisputeMessenger,
+    private readonly contentStore?: ContentStore
   ) {
     if (broadcaster === 'DEFAULT') {
       this.broadcaster = new TopicBroadcaster([globalConfig.topic], {
@@ -43,7 +65,26 @@ export default class Platform {
         find: 'all-disputed'
       }
     })
-    return recordsFromAnswer(answer)
+    return await resolveListedContent(recordsFromAnswer(answer), this.contentStore)
+  }
+
+  /**
+   * Lists the dispute notifications sent to this platform, newest last. Acknowledged
+   * messages are left out unless asked for.
+   */
+  async listInbox (includeAcknowledged: boolean = false): Promise<DisputeMessage[]> {
+    if (this.messenger === undefined) throw new Error('No dispute messenger configured')
+    const platformKey = await this.populateDerivedPublicKey()
+    return await this.messenger.listInbox(platformKey, includeAcknowledged)
+  }
+
+  /**
+   * Marks a dispute notification as handled, so it no longer shows in the inbox.
+   */
+  async acknowledge (messageId: string): Promise<void> {
+    if (this.messenger === undefined) throw new Error('No dispute messenger configured')
+    const platformKey = await this.populateDerivedPublicKey()
+    await this.messenger.acknowledge(platformKey, messageId)
   }
 
   async listHistoricalDisputes (): Promise<any[]> {
@@ -115,10 +156,40 @@ export default class Platform {
 
     // NOTE: This method currently reads dispute records created by Seeker and Furnisher
     // when they call reclaimAfterDispute() and claimAfterDispute().
-    // Platform.decideDispute() does not yet store its own dispute decision records.
-    // Future enhancement: Platform.decideDispute() should also store detailed decision
-    // records (including amountForSeeker, amountForFurnisher, notes, decision rationale)
-    // in a separate basket (e.g., 'escrow-decisions') for platform-side tracking.
+    // The platform's own rulings are kept separately, see listDecisions().
+  }
+
+  /**
+   * Lists the rulings this platform has made, from its 'escrow-decisions' basket, oldest
+   * first. Dates are Unix seconds and both ends of the range are inclusive. A party key
+   * matches either the seeker or the furnisher.
+   */
+  async listDecisions (filter: {
+    from?: number
+    to?: number
+    partyKey?: string
+    outcome?: DisputeDecision['outcome']
+  } = {}): Promise<DisputeDecision[]> {
+    const { outputs } = await this.wallet.listOutputs({
+      basket: 'escrow-decisions',
+      include: 'locking scripts',
+      limit: 10000
+    })
+    const decisions: DisputeDecision[] = []
+    for (const output of outputs) {
+      try {
+        const { fields } = PushDrop.decode(Script.fromHex(output.lockingScript ?? ''))
+        decisions.push(JSON.parse(Utils.toUTF8(fields[0])))
+      } catch (e) {}
+    }
+    return decisions
+      .filter(x => (
+        (filter.from === undefined || x.decidedAt >= filter.from) &&
+        (filter.to === undefined || x.decidedAt <= filter.to) &&
+        (filter.partyKey === undefined || x.seekerKey === filter.partyKey || x.furnisherKey === filter.partyKey) &&
+        (filter.outcome === undefined || x.outcome === filter.outcome)
+      ))
+      .sort((a, b) => a.decidedAt - b.decidedAt)
   }
 
   async decideDispute (
@@ -138,42 +209,22 @@ export default class Platform {
     if (record.status !== 'disputed-by-seeker' && record.status !== 'disputed-by-furnisher') {
       throw new Error('Contract is not in disputed state')
     }
-
-    // Get the full escrow transaction
-    const escrowTX = await this.getEscrowTX(record)
-
-    // Calculate platform fee
-    const platformFee = Math.floor(
-      escrowTX.satoshis * record.escrowServiceFeeBasisPoints / 10000
-    )
-
-    // Build outputs: seeker payout, furnisher payout, platform fee
-    const outputs = []
-
-    if (amountForSeeker > 0) {
-      outputs.push({
-        satoshis: amountForSeeker,
-        lockingScript: new P2PKH().lock(record.seekerKey).toHex(),
-        outputDescription: 'Seeker dispute payout'
-      })
+    if (record.panelThreshold > 0) {
+      throw new Error('Disputes on this contract are decided by its arbiter panel')
     }
 
-    if (amountForFurnisher > 0) {
-      outputs.push({
-        satoshis: amountForFurnisher,
-        lockingScript: new P2PKH().lock(record.acceptedBid.furnisherKey).toHex(),
-        outputDescription: 'Furnisher dispute payout'
-      })
+    // Unless both sides have already committed their evidence, wait out the evidence period
+    const lockTime = await this.getCurrentLockTime()
+    const evidenceComplete = record.seekerEvidenceHash !== '' && record.furnisherEvidenceHash !== ''
+    if (!evidenceComplete && lockTime <= evidenceDeadlineFor(record)) {
+      throw new Error(`Evidence period has not ended. Deadline: ${evidenceDeadlineFor(record)}, Current time: ${lockTime}`)
     }
 
-    outputs.push({
-      satoshis: platformFee,
-      lockingScript: new P2PKH().lock(this.derivedPublicKey).toHex(),
-      outputDescription: 'Platform fee'
-    })
+    // Get the full escrow transaction
+    const escrowTX = await this.getEscrowTX(record)
 
-    // Build otherOutputs ByteString (all outputs after the first two)
-    const otherOutputsHex = outputs.slice(2).map(o => o.lockingScript).join('')
+    // On contracts that allow appeals, the ruling stays provisional until finalized
+    const { platformFee, reopens, provisional, nextOutputAmount, outputs } = buildDisputeResolution(escrowTX, amountForSeeker, amountForFurnisher)
 
     // Call contract method
     const { tx } = await callContractMethod(
@@ -184,19 +235,392 @@ export default class Platform {
         1n, // platformResolves = true
         BigInt(amountForSeeker),
         BigInt(amountForFurnisher),
-        toByteString(otherOutputsHex), // otherOutputs
+        toByteString(''), // otherOutputs
         this.signatory(), // platformSig
         'WONTSIGN', // seekerSig (not needed)
-        'WONTSIGN' // furnisherSig (not needed)
+        'WONTSIGN', // furnisherSig (not needed)
+        noPanelSignatures() // panelSigs (not needed)
       ],
-      undefined, // No next state output (contract destroyed)
-      outputs
+      nextOutputAmount, // Only a reopened or provisional contract has a next state output
+      outputs,
+      0xfffffffe, // Enable locktime
+      lockTime
     )
 
     if (!tx) throw new Error('Transaction data missing from sign action result')
+    const resolutionTx = Transaction.fromAtomicBEEF(tx)
+    await this.broadcaster.broadcast(resolutionTx)
+
+    await this.recordDecision({
+      escrowTxid: record.txid,
+      escrowOutputIndex: record.outputIndex,
+      resolutionTxid: resolutionTx.id('hex'),
+      seekerKey: record.seekerKey,
+      furnisherKey: record.acceptedBid.furnisherKey,
+      outcome: amountForFurnisher === 0 ? 'seeker' : amountForSeeker === 0 ? 'furnisher' : 'split',
+      reopened: reopens,
+      provisional,
+      amountForSeeker,
+      amountForFurnisher,
+      platformFee,
+      notes: Utils.toUTF8(notes),
+      decidedAt: Math.floor(Date.now() / 1000)
+    })
+  }
+
+  /**
+   * Lists appealed rulings waiting on this platform, acting as the appeal arbiter.
+   */
+  async listActiveAppeals (): Promise<EscrowTX[]> {
+    await this.populateDerivedPublicKey()
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        appealKey: this.derivedPublicKey,
+        find: 'all-appealed'
+      }
+    })
+    return await resolveListedContent(recordsFromAnswer(answer), this.contentStore)
+  }
+
+  /**
+   * Decides an appealed ruling as the contract's appeal arbiter. This ruling is final.
+   */
+  async decideAppeal (
+    record: EscrowRecord,
+    amountForSeeker: number,
+    amountForFurnisher: number,
+    notes: number[]
+  ): Promise<void> {
+    await this.populateDerivedPublicKey()
+    if (record.appealKey !== this.derivedPublicKey) {
+      throw new Error('Appeal key mismatch - not authorized to decide this appeal')
+    }
+    if (record.status !== 'appealed-by-seeker' && record.status !== 'appealed-by-furnisher') {
+      throw new Error('Contract is not in appealed state')
+    }
+
+    const escrowTX = await this.getEscrowTX(record)
+    const { platformFee, reopens, nextOutputAmount, outputs } = buildDisputeResolution(escrowTX, amountForSeeker, amountForFurnisher)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrowTX,
+      'resolveAppeal',
+      [
+        BigInt(amountForSeeker),
+        BigInt(amountForFurnisher),
+        toByteString(''), // otherOutputs
+        this.signatory() // appealSig
+      ],
+      nextOutputAmount, // Only a reopened contract has a next state output
+      outputs
+    )
+
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    const resolutionTx = Transaction.fromAtomicBEEF(tx)
+    await this.broadcaster.broadcast(resolutionTx)
+
+    await this.recordDecision({
+      escrowTxid: record.txid,
+      escrowOutputIndex: record.outputIndex,
+      resolutionTxid: resolutionTx.id('hex'),
+      seekerKey: record.seekerKey,
+      furnisherKey: record.acceptedBid.furnisherKey,
+      outcome: amountForFurnisher === 0 ? 'seeker' : amountForSeeker === 0 ? 'furnisher' : 'split',
+      reopened: reopens,
+      provisional: false,
+      amountForSeeker,
+      amountForFurnisher,
+      platformFee,
+      notes: Utils.toUTF8(notes),
+      decidedAt: Math.floor(Date.now() / 1000)
+    })
+  }
+
+  /**
+   * Adds platform funds to a bounty, on contracts that let the platform increase it.
+   */
+  async increaseBounty (escrow: EscrowTX, increaseBy: number): Promise<void> {
+    await this.populateDerivedPublicKey()
+    if (escrow.record.platformKey !== this.derivedPublicKey) {
+      throw new Error('Platform key mismatch - not authorized to manage this contract')
+    }
+    if (escrow.record.contractType !== 'bounty') {
+      throw new Error('Only bounties can be increased')
+    }
+    if (escrow.record.bountyIncreaseAllowanceMode !== 'by-platform' && escrow.record.bountyIncreaseAllowanceMode !== 'by-seeker-or-platform') {
+      throw new Error('The platform may not increase the bounty on this contract')
+    }
+    if (!bountyIncreaseOpen(escrow.record)) {
+      throw new Error(`Cannot increase bounty in current state: ${escrow.record.status}`)
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'increaseBounty',
+      [EscrowContract.BOUNTY_INCREASE_ALLOWED_BY_PLATFORM, BigInt(increaseBy), this.signatory()],
+      escrow.satoshis + increaseBy
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Lists the evidence hashes both parties have anchored in a disputed contract.
+   */
+  listEvidence (escrow: EscrowTX): EvidenceCommitment[] {
+    return evidenceCommitmentsFor(escrow.record)
+  }
+
+  /**
+   * Checks an evidence bundle received off-chain against the hash its party anchored.
+   */
+  verifyEvidence (escrow: EscrowTX, party: 'seeker' | 'furnisher', evidence: number[]): boolean {
+    return verifyEvidence(escrow.record, party, evidence)
+  }
+
+  /**
+   * Lists the off-chain bids made against a contract, leaving out any that have expired.
+   */
+  async listBids (escrow: EscrowTX): Promise<OffChainBidTX[]> {
+    const lockTime = await this.getCurrentLockTime()
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        find: 'bids',
+        txid: escrow.record.txid,
+        outputIndex: escrow.record.outputIndex,
+        asOf: lockTime
+      }
+    })
+    return bidsFromAnswer(answer).filter(x => !bidExpired(x.record.bid, lockTime) && offChainBidSigned(escrow.record, x.record))
+  }
+
+  /**
+   * Every version of a contract so far, oldest first, with how each one was spent.
+   */
+  async getLifecycle (escrow: EscrowTX): Promise<EscrowVersionRecord[]> {
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        find: 'lifecycle',
+        txid: escrow.record.txid,
+        outputIndex: escrow.record.outputIndex
+      }
+    })
+    return lifecycleFromAnswer(answer)
+  }
+
+  /**
+   * Accepts an off-chain bid from listBids, or the bid in a contract slot when given an index.
+   * Off-chain bids also need their furnisher's authorization from Furnisher.authorizeBidAcceptance.
+   */
+  async acceptBid (escrow: EscrowTX, offChainBidOrIndex: OffChainBidTX | number, authorization?: BidAcceptanceAuthorization): Promise<void> {
+    await this.verifyPlatformMayApprove(escrow)
+    if (!escrow.record.bountySolversNeedApproval) {
+      throw new Error('Bids on this contract do not need approval')
+    }
+    let bid: Bid
+    if (typeof offChainBidOrIndex === 'number') {
+      bid = this.getOccupiedBid(escrow, offChainBidOrIndex)
+    } else {
+      if (!offChainBidSigned(escrow.record, offChainBidOrIndex.record)) {
+        throw new Error('Bid was not signed by its furnisher for this contract')
+      }
+      bid = offChainBidOrIndex.record.bid
+    }
+
+    // The furnisher must still have time to complete the work, and still stand by the bid
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime >= escrow.record.workCompletionDeadline - bid.timeRequired) {
+      throw new Error('Not enough time remains before the deadline to accept this bid')
+    }
+    if (bidExpired(bid, lockTime)) {
+      throw new Error('Bid has expired')
+    }
+
+    // For bid contracts, the accepted amount is funded by whoever accepts the bid
+    const nextOutputAmount = escrow.record.contractType === 'bid' ? bid.bidAmount : escrow.satoshis
+    if (typeof offChainBidOrIndex === 'number') {
+      const { tx } = await callContractMethod(
+        this.wallet,
+        escrow,
+        'acceptBid',
+        [EscrowContract.FURNISHER_APPROVAL_MODE_PLATFORM, this.signatory(), BigInt(offChainBidOrIndex)],
+        nextOutputAmount,
+        [],
+        0xfffffffe, // Enable locktime
+        lockTime
+      )
+      if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+      await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+      return
+    }
+    const { furnisherSignature, lockTime: authorizedAt } = verifyBidAcceptanceAuthorization(escrow, 'platform', authorization)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'acceptOffChainBid',
+      [
+        EscrowContract.FURNISHER_APPROVAL_MODE_PLATFORM,
+        this.signatory(),
+        contractBidFromRecord(bid),
+        Sig(toByteString(furnisherSignature)),
+        ...allowListProofParams(offChainBidOrIndex.record.allowListProof)
+      ],
+      nextOutputAmount,
+      [],
+      0xfffffffe, // Enable locktime
+      authorizedAt // The furnisher signed for this lock time
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
+  async rejectBid (escrow: EscrowTX, bidIndex: number): Promise<void> {
+    await this.verifyPlatformMayApprove(escrow)
+    this.getOccupiedBid(escrow, bidIndex)
+
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'rejectBid',
+      [EscrowContract.FURNISHER_APPROVAL_MODE_PLATFORM, this.signatory(), BigInt(bidIndex)],
+      escrow.satoshis // Same satoshis, the slot is simply freed
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  async withdrawBidAcceptance (escrow: EscrowTX): Promise<void> {
+    await this.populateDerivedPublicKey()
+    if (escrow.record.platformKey !== this.derivedPublicKey) {
+      throw new Error('Platform key mismatch - not authorized to manage this contract')
+    }
+    if (escrow.record.status !== 'bid-accepted') {
+      throw new Error(`Cannot withdraw bid acceptance in current state: ${escrow.record.status}`)
+    }
+    if (escrow.record.bidAcceptedBy !== 'platform') {
+      throw new Error('Only the party that accepted the bid may withdraw the acceptance')
+    }
+
+    // The furnisher must have failed to start work within the allowed delay
+    const lockTime = await this.getCurrentLockTime()
+    const startDeadline = escrow.record.acceptedBid.timeOfBid + escrow.record.maxWorkStartDelay
+    if (lockTime <= startDeadline) {
+      throw new Error(`Work start deadline has not yet expired. Deadline: ${startDeadline}, Current time: ${lockTime}`)
+    }
+
+    // Bids accepted from the off-chain bid book never occupied a slot
+    const bidIndex = escrow.contract.bids.findIndex(x => (
+      x.furnisherKey === escrow.contract.acceptedBid.furnisherKey && x.plans === escrow.contract.acceptedBid.plans
+    ))
+
+    // For bid contracts, the accepted amount returns to the platform that funded it
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      bidIndex === -1 ? 'withdrawOffChainBidAcceptance' : 'withdrawBidAcceptance',
+      bidIndex === -1 ? [this.signatory()] : [this.signatory(), BigInt(bidIndex)],
+      escrow.record.contractType === 'bid' ? 1 : escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Issues the platform's half of the start-of-work signature for a contract that
+   * requires platform authorization. The accepted furnisher passes the result to
+   * Furnisher.startWork, which must spend the exact contract output it was issued for.
+   */
+  async authorizeStartOfWork (escrow: EscrowTX): Promise<StartOfWorkAuthorization> {
+    await this.populateDerivedPublicKey()
+    if (escrow.record.platformKey !== this.derivedPublicKey) {
+      throw new Error('Platform key mismatch - not authorized to manage this contract')
+    }
+    if (!escrow.record.platformAuthorizationRequired) {
+      throw new Error('This contract does not require platform authorization to start work')
+    }
+    if (escrow.record.status !== 'bid-accepted') {
+      throw new Error(`Cannot authorize start of work in current state: ${escrow.record.status}`)
+    }
+
+    const platformSignature = await presignContractMethod(
+      escrow,
+      'furnisherStartsWorkWithPlatformAuthorization',
+      ['WONTSIGN', 'WONTSIGN'],
+      this.signatory(),
+      escrow.satoshis + escrow.record.acceptedBid.bond
+    )
+    return {
+      txid: escrow.record.txid,
+      outputIndex: escrow.record.outputIndex,
+      platformSignature
+    }
+  }
+
+  async getCurrentLockTime (): Promise<number> {
+    if (this.globalConfig.delayUnit === 'blocks') {
+      const { height } = await this.wallet.getHeight({})
+      return height
+    } else {
+      return Math.floor(Date.now() / 1000)
+    }
+  }
+
+  private async recordDecision (decision: DisputeDecision): Promise<void> {
+    try {
+      // The ruling is already on-chain, so a failure here only loses the ledger entry
+      const lockingScript = await new PushDrop(this.wallet).lock(
+        [Utils.toArray(JSON.stringify(decision), 'utf8')],
+        [2, 'escrow-decisions'],
+        decision.resolutionTxid,
+        'self',
+        true,
+        false
+      )
+      await this.wallet.createAction({
+        description: `Dispute decision record: ${decision.escrowTxid.substring(0, 16)}`,
+        outputs: [{
+          satoshis: 1,
+          lockingScript: lockingScript.toHex(),
+          outputDescription: 'Dispute decision record',
+          basket: 'escrow-decisions',
+          tags: ['dispute', 'escrow', 'decision', decision.outcome]
+        }]
+      })
+    } catch (error) {
+      console.warn('Failed to store dispute decision in basket:', error)
+    }
+  }
+
+  private async verifyPlatformMayApprove (escrow: EscrowTX): Promise<void> {
+    await this.populateDerivedPublicKey()
+    if (escrow.record.platformKey !== this.derivedPublicKey) {
+      throw new Error('Platform key mismatch - not authorized to manage this contract')
+    }
+    if (!acceptingBids(escrow.record)) {
+      throw new Error(`Cannot manage bids in current state: ${escrow.record.status}`)
+    }
+    if (escrow.record.approvalMode === 'seeker') {
+      throw new Error('Only the seeker may approve or reject bids on this contract')
+    }
+  }
+
+  private getOccupiedBid (escrow: EscrowTX, bidIndex: number): Bid {
+    const bid = escrow.record.bids[bidIndex]
+    if (bid === undefined) {
+      throw new Error(`Invalid bid index: ${bidIndex}`)
+    }
+    if (bid.furnisherKey === escrow.record.seekerKey) {
+      throw new Error(`Bid slot ${bidIndex} is empty`)
+    }
+    return bid
+  }
+
   private signatory () {
     return async (preimageHash: number[], scope: number): Promise<Sig> => {
       const { signature } = await this.wallet.createSignature({
@@ -226,7 +650,7 @@ export default class Platform {
     return results[0]
   }
 
-  private async populateDerivedPublicKey () {
+  private async populateDerivedPublicKey (): Promise<string> {
     if (typeof this.derivedPublicKey !== 'string') {
       const { publicKey } = await this.wallet.getPublicKey({
         counterparty: 'self',
@@ -235,5 +659,6 @@ export default class Platform {
       })
       this.derivedPublicKey = publicKey
     }
+    return this.derivedPublicKey
   }
 }
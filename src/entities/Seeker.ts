@@ -1,9 +1,42 @@
-import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Transaction, TransactionSignature, Signature, Utils, Broadcaster, Script } from '@bsv/sdk'
-import { PushDrop } from '@bsv/sdk/script'
-import type { EscrowTX, GlobalConfig } from '../constants.js'
-import { callContractMethod, contractFromGlobalConfigAndParams, recordsFromAnswer } from '../utils.js'
+import { WalletInterface, WalletClient, TopicBroadcaster, LookupResolver, Transaction, TransactionSignature, Signature, Utils, Broadcaster, Script, PushDrop } from '@bsv/sdk'
+import type { AllowList, BidAcceptanceAuthorization, EscrowTX, EvidenceCommitment, EscrowVersionRecord, GlobalConfig, Milestone, OffChainBidTX, PendingContractCall, SealedBidding, WorkSpec } from '../constants.js'
+import {
+  acceptingBids,
+  allowListProofParams,
+  appealDeadlineFor,
+  bidExpired,
+  bidsFromAnswer,
+  buildDisputeResolution,
+  buildMilestoneReleaseOutputs,
+  buildSettlementOutputs,
+  callContractMethod,
+  commitContent,
+  contractBidFromRecord,
+  contractFromGlobalConfigAndParams,
+  createPendingContractCall,
+  currentMilestoneFor,
+  encodeWorkDescription,
+  evidenceCommitmentsFor,
+  evidenceDeadlineFor,
+  evidenceHashFor,
+  finalizePendingContractCall,
+  flagExpiredBids,
+  lifecycleFromAnswer,
+  noPanelSignatures,
+  OPEN_STATUSES,
+  offChainBidSigned,
+  pendingSettlementTerms,
+  recordsFromAnswer,
+  resolveListedContent,
+  signDisputeMessage,
+  signPendingContractCall,
+  verifyBidAcceptanceAuthorization,
+  verifyEvidence
+} from '../utils.js'
 import { bsv, PubKey, Sig, toByteString } from 'scrypt-ts'
 import { EscrowContract } from '../contracts/Escrow.js'
+import type { ContentStore } from '../content/ContentStore.js'
+import type { DisputeMessenger } from '../messaging/DisputeMessenger.js'
 import escrowArtifact from '../../artifacts/Escrow.json' with { type: 'json' }
 EscrowContract.loadArtifact(escrowArtifact)
 
@@ -16,7 +49,9 @@ export default class Seeker {
     private readonly globalConfig: GlobalConfig,
     private readonly wallet: WalletInterface = new WalletClient('auto', 'localhost'),
     broadcaster: TopicBroadcaster | 'DEFAULT' = 'DEFAULT',
-    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT'
+    resolver: LookupResolver | 'DEFAULT' = 'DEFAULT',
+    private readonly messenger?: DisputeMessenger,
+    private readonly contentStore?: ContentStore
   ) {
     if (broadcaster === 'DEFAULT') {
       this.broadcaster = new TopicBroadcaster([globalConfig.topic], {
@@ -35,25 +70,38 @@ export default class Seeker {
   }
 
   async seek (
-    workDescription: string,
+    workDescription: string | WorkSpec,
     workCompletionDeadline: number,
     bounty: number = 1,
-    contractType: 'bid' | 'bounty' = 'bounty'
+    contractType: 'bid' | 'bounty' = 'bounty',
+    milestones: Milestone[] = [],
+    allowList?: AllowList,
+    sealedBidding?: SealedBidding
   ): Promise<void> {
     await this.populateDerivedPublicKey()
+    if (contractType === 'bounty' && milestones.length > 0 && milestones.reduce((total, x) => total + x.amount, 0) !== bounty) {
+      throw new Error('Milestone amounts must add up to the bounty')
+    }
     // Override global config with the specified contract type
     const configWithContractType = {
       ...this.globalConfig,
       contractType
     }
+    // With a content store, the contract only carries a commitment to the description
+    const description = this.contentStore === undefined
+      ? workDescription
+      : await commitContent(this.contentStore, encodeWorkDescription(workDescription))
     const escrow = contractFromGlobalConfigAndParams(
       configWithContractType,
       this.derivedPublicKey!,
-      workDescription,
-      workCompletionDeadline
+      description,
+      workCompletionDeadline,
+      milestones,
+      allowList,
+      sealedBidding
     )
     const { tx } = await this.wallet.createAction({
-      description: workDescription,
+      description: typeof workDescription === 'string' ? workDescription : workDescription.title,
       outputs: [{
         outputDescription: 'Work completion contract',
         satoshis: contractType === 'bounty' ? bounty : 1,
@@ -74,7 +122,53 @@ export default class Seeker {
         find: 'all-open'
       }
     })
-    return recordsFromAnswer(answer)
+    const lockTime = await this.getCurrentLockTime()
+    const escrows = await resolveListedContent(recordsFromAnswer(answer), this.contentStore)
+    return escrows.map(x => flagExpiredBids(x, lockTime))
+  }
+
+  /**
+   * Closes a sealed-bid auction once its reveal period is over, discarding any bids that
+   * were never revealed. The remaining bids can then be accepted.
+   */
+  async closeSealedBidding (escrow: EscrowTX): Promise<void> {
+    if (!escrow.record.sealedBidding) {
+      throw new Error('Bids on this contract are not sealed')
+    }
+    if (escrow.record.status !== 'initial' && escrow.record.status !== 'revealing-bids') {
+      throw new Error(`Cannot close bidding in current state: ${escrow.record.status}`)
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime <= escrow.record.revealDeadline) {
+      throw new Error(`Reveal period has not ended. Deadline: ${escrow.record.revealDeadline}, Current time: ${lockTime}`)
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'closeSealedBidding',
+      [],
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Every version of a contract so far, oldest first, with how each one was spent.
+   */
+  async getLifecycle (escrow: EscrowTX): Promise<EscrowVersionRecord[]> {
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        find: 'lifecycle',
+        txid: escrow.record.txid,
+        outputIndex: escrow.record.outputIndex
+      }
+    })
+    return lifecycleFromAnswer(answer)
   }
 
   async cancelBeforeAccept (escrow: EscrowTX): Promise<void> {
@@ -100,35 +194,182 @@ export default class Seeker {
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
-  async acceptBid (escrow: EscrowTX, bidIndex: number) {
+  /**
+   * Lists the off-chain bids made against a contract, leaving out any that have expired.
+   */
+  async listBids (escrow: EscrowTX): Promise<OffChainBidTX[]> {
+    const lockTime = await this.getCurrentLockTime()
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        find: 'bids',
+        txid: escrow.record.txid,
+        outputIndex: escrow.record.outputIndex,
+        asOf: lockTime
+      }
+    })
+    return bidsFromAnswer(answer).filter(x => !bidExpired(x.record.bid, lockTime) && offChainBidSigned(escrow.record, x.record))
+  }
+
+  /**
+   * Accepts an off-chain bid from listBids, committing only that bid into the contract.
+   * The furnisher must have authorized the acceptance with Furnisher.authorizeBidAcceptance.
+   * Passing a slot index instead accepts a bid held in the contract's own bid slots.
+   */
+  async acceptBid (escrow: EscrowTX, bid: OffChainBidTX | number, authorization?: BidAcceptanceAuthorization): Promise<void> {
+    if (!acceptingBids(escrow.record)) {
+      throw new Error(`Cannot accept bid in current state: ${escrow.record.status}`)
+    }
+    if (escrow.record.workCompletionDeadline === 0) {
+      throw new Error('This contract was reopened for bidding, set a new deadline with renewDeadline first')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (bidExpired(typeof bid === 'number' ? escrow.record.bids[bid] : bid.record.bid, lockTime)) {
+      throw new Error('Bid has expired')
+    }
+    if (typeof bid === 'number') {
+      const { tx } = await callContractMethod(
+        this.wallet,
+        escrow,
+        'acceptBid',
+        [EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER, this.signatory(), BigInt(bid)],
+        escrow.contract.contractType === EscrowContract.TYPE_BID
+          ? Number(escrow.contract.bids[bid].bidAmount)
+          : escrow.satoshis,
+        [],
+        0xfffffffe, // Enable locktime
+        lockTime
+      )
+      if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+      await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+      return
+    }
+    if (!offChainBidSigned(escrow.record, bid.record)) {
+      throw new Error('Bid was not signed by its furnisher for this contract')
+    }
+    const { furnisherSignature, lockTime: authorizedAt } = verifyBidAcceptanceAuthorization(escrow, 'seeker', authorization)
     const { tx } = await callContractMethod(
       this.wallet,
       escrow,
-      'acceptBid',
-      [EscrowContract.BID_ACCEPTED_BY_SEEKER, this.signatory(), BigInt(bidIndex)],
+      'acceptOffChainBid',
+      [
+        EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER,
+        this.signatory(),
+        contractBidFromRecord(bid.record.bid),
+        Sig(toByteString(furnisherSignature)),
+        ...allowListProofParams(bid.record.allowListProof)
+      ],
       escrow.contract.contractType === EscrowContract.TYPE_BID
-        ? Number(escrow.contract.bids[bidIndex].bidAmount)
-        : escrow.satoshis
+        ? bid.record.bid.bidAmount
+        : escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      authorizedAt // The furnisher signed for this lock time
     )
     if (!tx) throw new Error('Transaction data missing from sign action result')
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
+  async rejectBid (escrow: EscrowTX, bidIndex: number): Promise<void> {
+    // Bids can only be rejected while the contract is still open for bidding
+    if (escrow.record.status !== 'initial' && !acceptingBids(escrow.record)) {
+      throw new Error(`Cannot reject bid in current state: ${escrow.record.status}`)
+    }
+    if (escrow.record.approvalMode === 'platform') {
+      throw new Error('Only the platform may reject bids on this contract')
+    }
+
+    // The slot must hold a real bid (empty slots carry the seeker's key)
+    const bid = escrow.record.bids[bidIndex]
+    if (bid === undefined) {
+      throw new Error(`Invalid bid index: ${bidIndex}`)
+    }
+    if (bid.furnisherKey === escrow.record.seekerKey) {
+      throw new Error(`Bid slot ${bidIndex} is already empty`)
+    }
+
+    const lockTime = await this.getCurrentLockTime()
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'rejectBid',
+      [EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER, this.signatory(), BigInt(bidIndex)],
+      escrow.satoshis, // Same satoshis, the slot is simply freed
+      [],
+      0xfffffffe,
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  async extendDeadline (escrow: EscrowTX, extension: number): Promise<void> {
+    // The deadline can only move while work has not yet been submitted
+    if (
+      !acceptingBids(escrow.record) &&
+      escrow.record.status !== 'initial' &&
+      escrow.record.status !== 'bid-accepted' &&
+      escrow.record.status !== 'work-started'
+    ) {
+      throw new Error(`Cannot extend deadline in current state: ${escrow.record.status}`)
+    }
+    if (!Number.isInteger(extension) || extension <= 0) {
+      throw new Error('Deadline extension must be a positive integer')
+    }
+
+    // The new deadline must stay in the same time unit as the contract
+    const newDeadline = escrow.record.workCompletionDeadline + extension
+    if (escrow.record.delayUnit === 'blocks' && newDeadline >= 500000000) {
+      throw new Error('Extended deadline would exceed the block height range')
+    }
+    if (escrow.record.delayUnit === 'seconds' && newDeadline <= 500000000) {
+      throw new Error('Extended deadline must be a UNIX timestamp')
+    }
+
+    const lockTime = await this.getCurrentLockTime()
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'seekerExtendsWorkDeadline',
+      [this.signatory(), BigInt(extension)],
+      escrow.satoshis, // Same satoshis (no payout, just a new deadline)
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Sets a new deadline on a contract that a ruling reopened for bidding. Reopening clears
+   * the old deadline, so no bid can be accepted until this is done.
+   */
+  async renewDeadline (escrow: EscrowTX, deadline: number): Promise<void> {
+    if (escrow.record.workCompletionDeadline !== 0) {
+      throw new Error('Only a reopened contract needs a new deadline, use extendDeadline instead')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (deadline <= lockTime) {
+      throw new Error(`New deadline must be in the future. Deadline: ${deadline}, Current time: ${lockTime}`)
+    }
+    await this.extendDeadline(escrow, deadline)
+  }
+
   async cancelBidApprovalAfterDelay (escrow: EscrowTX) {
     const lockTime = await this.getCurrentLockTime()
+    const slotIndex = escrow.contract.bids.findIndex(x => (
+      x.furnisherKey === escrow.contract.acceptedBid.furnisherKey && x.plans === escrow.contract.acceptedBid.plans
+    ))
     const { tx } = await callContractMethod(
       this.wallet,
       escrow,
-      'withdrawBidAcceptance',
-      [
-        this.signatory(),
-        escrow.contract.bids.findIndex(x => (
-          x.furnisherKey === escrow.contract.acceptedBid.furnisherKey && x.plans === escrow.contract.acceptedBid.plans
-        ))
-      ],
+      // Bids accepted from the off-chain bid book never occupied a slot
+      slotIndex === -1 ? 'withdrawOffChainBidAcceptance' : 'withdrawBidAcceptance',
+      slotIndex === -1 ? [this.signatory()] : [this.signatory(), BigInt(slotIndex)],
       escrow.contract.contractType === EscrowContract.TYPE_BID ? 1 : escrow.satoshis,
       [],
-      0xffffffe,
+      0xfffffffe,
       lockTime
     )
     if (!tx) throw new Error('Transaction data missing from sign action result')
@@ -147,6 +388,72 @@ export default class Seeker {
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
   }
 
+  /**
+   * Approves the milestone the furnisher just submitted, releasing its amount. Approving
+   * the last milestone resolves the contract, like approveCompletedWork.
+   */
+  async approveMilestone (escrow: EscrowTX): Promise<void> {
+    if (escrow.record.milestones.length === 0) {
+      throw new Error('This contract has no milestones')
+    }
+    if (escrow.record.status !== 'work-submitted') {
+      throw new Error(`Cannot approve milestone in current state: ${escrow.record.status}`)
+    }
+    const { nextOutputAmount, outputs } = buildMilestoneReleaseOutputs(escrow)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'seekerApprovesMilestone',
+      [this.signatory(), toByteString('')], // otherOutputs
+      nextOutputAmount,
+      outputs
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Disputes the current milestone, either once it is overdue or after it was submitted.
+   * The dispute covers whatever is still held in the contract.
+   */
+  async disputeMilestone (escrow: EscrowTX, evidence?: number[]): Promise<void> {
+    if (escrow.record.milestones.length === 0) {
+      throw new Error('This contract has no milestones')
+    }
+    await this.disputeWork(escrow, evidence)
+  }
+
+  /**
+   * Takes back the contract funds, including any bond the furnisher posted, when work was
+   * started but never submitted. Only possible once the grace period after the work
+   * completion deadline has passed, and only on contracts that allow it.
+   */
+  async reclaimAbandoned (escrow: EscrowTX): Promise<void> {
+    if (escrow.record.status !== 'work-started') {
+      throw new Error(`Cannot reclaim abandoned work in current state: ${escrow.record.status}`)
+    }
+    if (!escrow.record.abandonedWorkRefundAllowed) {
+      throw new Error('Abandoned work refunds are not allowed on this contract')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    const reclaimableAfter = escrow.record.workCompletionDeadline + escrow.record.abandonedWorkGracePeriod
+    if (lockTime <= reclaimableAfter) {
+      throw new Error(`Grace period has not yet expired. Reclaimable after: ${reclaimableAfter}, Current time: ${lockTime}`)
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'seekerReclaimsAbandonedWork',
+      [this.signatory()],
+      undefined, // No next contract output, the funds come back to us
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
   async disputeWork (record: EscrowTX, evidence?: number[]) {
     // State must be work-started (timeout expired) or work-submitted
     // Verify state is valid for raising dispute
@@ -157,9 +464,10 @@ export default class Seeker {
     // Get current locktime for validation
     const lockTime = await this.getCurrentLockTime()
 
-    // If work-started, verify deadline has expired
+    // If work-started, verify deadline has expired. On milestone contracts, that is the
+    // deadline of the milestone being worked on.
     if (record.record.status === 'work-started') {
-      if (lockTime <= record.record.workCompletionDeadline) {
+      if (lockTime <= (currentMilestoneFor(record.record)?.deadline ?? record.record.workCompletionDeadline)) {
         throw new Error('Work completion deadline has not yet expired')
       }
     }
@@ -169,7 +477,7 @@ export default class Seeker {
       this.wallet,
       record,
       'seekerRaisesDispute',
-      [this.signatory()],
+      [this.signatory(), toByteString(evidence === undefined ? '' : evidenceHashFor(evidence))],
       record.satoshis, // Same satoshis (no payout yet, just state change)
       [],
       0xfffffffe, // Enable locktime
@@ -179,13 +487,68 @@ export default class Seeker {
     if (!tx) throw new Error('Transaction data missing from sign action result')
 
     // Broadcast to overlay network
+    const disputeTx = Transaction.fromAtomicBEEF(tx)
+    await this.broadcaster.broadcast(disputeTx)
+
+    // Let the platform know, with the evidence, instead of waiting for it to poll the overlay
+    if (this.messenger !== undefined) {
+      const seekerKey = await this.populateDerivedPublicKey()
+      const message = await signDisputeMessage(this.wallet, this.globalConfig, record.record.platformKey, {
+        txid: disputeTx.id('hex'),
+        outputIndex: 0,
+        role: 'seeker',
+        senderKey: seekerKey,
+        evidence
+      })
+      await this.messenger.send(record.record.platformKey, message)
+    }
+  }
+
+  /**
+   * Anchors the hash of the seeker's evidence bundle in a disputed contract. Evidence
+   * already committed when raising the dispute cannot be replaced.
+   */
+  async submitEvidence (escrow: EscrowTX, evidence: number[]): Promise<void> {
+    if (escrow.record.status !== 'disputed-by-seeker' && escrow.record.status !== 'disputed-by-furnisher') {
+      throw new Error(`Cannot submit evidence in current state: ${escrow.record.status}`)
+    }
+    await this.populateDerivedPublicKey()
+    if (escrow.record.seekerKey !== this.derivedPublicKey) {
+      throw new Error('Only the seeker in the dispute can submit evidence')
+    }
+    if (escrow.record.seekerEvidenceHash !== '') {
+      throw new Error('Evidence has already been submitted')
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime > evidenceDeadlineFor(escrow.record)) {
+      throw new Error('Evidence period has ended')
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'seekerSubmitsEvidence',
+      [this.signatory(), toByteString(evidenceHashFor(evidence))],
+      escrow.satoshis,
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
     await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
 
-    // TODO: Compose and send dispute message to platform containing TXID and optional evidence
-    // This would typically involve:
-    // - Creating a dispute record with evidence if provided
-    // - Sending to platform's dispute resolution service
-    // - Storing dispute details locally for tracking
+  /**
+   * Lists the evidence hashes both parties have anchored in a disputed contract.
+   */
+  listEvidence (escrow: EscrowTX): EvidenceCommitment[] {
+    return evidenceCommitmentsFor(escrow.record)
+  }
+
+  /**
+   * Checks an evidence bundle received off-chain against the hash its party anchored.
+   */
+  verifyEvidence (escrow: EscrowTX, party: 'seeker' | 'furnisher', evidence: number[]): boolean {
+    return verifyEvidence(escrow.record, party, evidence)
   }
 
   async listDisputes (active?: boolean): Promise<{ active: EscrowTX[], historical: any[] }> {
@@ -281,7 +644,129 @@ export default class Seeker {
     return result
   }
 
-  async reclaimAfterDispute (record: EscrowTX, reconstitute?: boolean): Promise<void> {
+  /**
+   * Appeals a provisional ruling to the contract's appeal arbiter, before the appeal
+   * period ends. The arbiter's ruling replaces it and is final.
+   */
+  async appealRuling (escrow: EscrowTX): Promise<void> {
+    const seekerKey = await this.populateDerivedPublicKey()
+    if (escrow.record.seekerKey !== seekerKey) {
+      throw new Error('Cannot appeal a ruling on another seeker\'s contract')
+    }
+    if (escrow.record.status !== 'provisionally-resolved') {
+      throw new Error(`Cannot appeal in current state: ${escrow.record.status}`)
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime > appealDeadlineFor(escrow.record)) {
+      throw new Error(`Appeal period has ended. Deadline: ${appealDeadlineFor(escrow.record)}, Current time: ${lockTime}`)
+    }
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'seekerAppeals',
+      [this.signatory()],
+      escrow.satoshis, // Same satoshis (no payout yet, just state change)
+      [],
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    const appealTx = Transaction.fromAtomicBEEF(tx)
+    await this.broadcaster.broadcast(appealTx)
+
+    if (this.messenger !== undefined) {
+      const message = await signDisputeMessage(this.wallet, this.globalConfig, escrow.record.appealKey, {
+        txid: appealTx.id('hex'),
+        outputIndex: 0,
+        role: 'seeker',
+        senderKey: seekerKey
+      })
+      await this.messenger.send(escrow.record.appealKey, message)
+    }
+  }
+
+  /**
+   * Carries out a provisional ruling nobody appealed, once the appeal period has ended.
+   */
+  async finalizeRuling (escrow: EscrowTX): Promise<void> {
+    if (escrow.record.status !== 'provisionally-resolved') {
+      throw new Error(`Cannot finalize ruling in current state: ${escrow.record.status}`)
+    }
+    const lockTime = await this.getCurrentLockTime()
+    if (lockTime <= appealDeadlineFor(escrow.record)) {
+      throw new Error(`Appeal period has not ended. Deadline: ${appealDeadlineFor(escrow.record)}, Current time: ${lockTime}`)
+    }
+    // The contract builds the platform fee output itself on every ruling, so none is passed in
+    const { nextOutputAmount, outputs } = buildDisputeResolution(escrow, escrow.record.rulingAmountForSeeker, escrow.record.rulingAmountForFurnisher)
+    const { tx } = await callContractMethod(
+      this.wallet,
+      escrow,
+      'finalizeRuling',
+      [toByteString('')], // otherOutputs
+      nextOutputAmount, // Only a reopened contract has a next state output
+      outputs,
+      0xfffffffe, // Enable locktime
+      lockTime
+    )
+    if (tx === undefined) throw new Error('Transaction data missing from sign action result')
+    await this.broadcaster.broadcast(Transaction.fromAtomicBEEF(tx))
+  }
+
+  /**
+   * Proposes splitting a disputed contract without a platform decision, so no platform
+   * fee is paid. This wallet pays the transaction fee up front. The returned pending call
+   * goes to the other party for acceptSettlement, after which either party can finalize it.
+   */
+  async proposeSettlement (escrow: EscrowTX, amountForSeeker: number, amountForFurnisher: number): Promise<PendingContractCall> {
+    const seekerKey = await this.populateDerivedPublicKey()
+    if (escrow.record.seekerKey !== seekerKey) {
+      throw new Error('Only the seeker in the dispute can propose a settlement')
+    }
+    if (escrow.record.status !== 'disputed-by-seeker' && escrow.record.status !== 'disputed-by-furnisher') {
+      throw new Error(`Cannot settle in current state: ${escrow.record.status}`)
+    }
+    if (amountForSeeker < 0 || amountForFurnisher < 0 || amountForSeeker + amountForFurnisher < escrow.satoshis) {
+      throw new Error('Settlement must distribute the full contract balance')
+    }
+    return await createPendingContractCall(
+      this.wallet,
+      escrow,
+      'resolveDispute',
+      [
+        0n, // platformResolves = false
+        BigInt(amountForSeeker),
+        BigInt(amountForFurnisher),
+        toByteString(''), // otherOutputs
+        'WONTSIGN', // platformSig (not needed)
+        this.signatory(), // seekerSig
+        { signerKey: escrow.record.acceptedBid.furnisherKey }, // furnisherSig
+        noPanelSignatures() // panelSigs (not needed)
+      ],
+      seekerKey,
+      this.signatory(), // Signs for the fee this wallet pays up front
+      undefined, // No next state output (contract destroyed)
+      buildSettlementOutputs(escrow.record, amountForSeeker, amountForFurnisher)
+    )
+  }
+
+  async acceptSettlement (escrow: EscrowTX, pending: PendingContractCall): Promise<PendingContractCall> {
+    const seekerKey = await this.populateDerivedPublicKey()
+    // Fails unless the transaction pays exactly the amounts being agreed to
+    pendingSettlementTerms(escrow, pending)
+    return await signPendingContractCall(escrow, pending, seekerKey, this.signatory())
+  }
+
+  async finalizeSettlement (escrow: EscrowTX, pending: PendingContractCall): Promise<void> {
+    pendingSettlementTerms(escrow, pending)
+    await this.broadcaster.broadcast(finalizePendingContractCall(escrow, pending))
+  }
+
+  /**
+   * Records how a dispute ended. With reconstitute set, the work is put out for bidding
+   * again: a contract the ruling reopened gets the given deadline, and otherwise a new
+   * contract is made with it, or with the original deadline if none is given.
+   */
+  async reclaimAfterDispute (record: EscrowTX, reconstitute?: boolean, deadline?: number): Promise<void> {
     await this.populateDerivedPublicKey()
 
     // Verify record is in a disputed state or resolved after dispute
@@ -296,13 +781,17 @@ export default class Seeker {
     // Note: The Platform.decideDispute() method creates P2PKH outputs locked to
     // the seeker's and furnisher's public keys. The wallet automatically recognizes
     // and tracks these incoming P2PKH outputs, making them immediately spendable.
-    // The overlay network deletes spent UTXOs, so we cannot query for the resolution
-    // transaction. Instead, we trust that the wallet has received the payout.
+    // The overlay archives every version of the contract, so the resolution transaction
+    // can be looked up once the overlay has seen it. The payout itself needs no lookup.
+    const resolutionTxid = await this.getLifecycle(record)
+      .then(versions => versions.find(x => x.txid === record.record.txid && x.outputIndex === record.record.outputIndex)?.spendingTxid)
+      .catch(() => undefined)
 
     // Record dispute resolution in basket for history tracking
     const disputeRecord = {
       escrowTxid: record.record.txid,
       escrowOutputIndex: record.record.outputIndex,
+      resolutionTxid,
       seekerKey: record.record.seekerKey,
       furnisherKey: record.record.acceptedBid.furnisherKey,
       platformKey: record.record.platformKey,
@@ -350,10 +839,18 @@ export default class Seeker {
 
     // If reconstitute flag is set, create a new contract with similar parameters
     if (reconstitute) {
+      // Surviving contracts were already reopened by the platform's ruling
+      if (record.record.contractSurvivesAdverseFurnisherDisputeResolution) {
+        const reopened = await this.getReopenedContract(record)
+        if (reopened !== null) {
+          if (deadline !== undefined) await this.renewDeadline(reopened, deadline)
+          return
+        }
+      }
       try {
         await this.seek(
           record.record.workDescription,
-          record.record.workCompletionDeadline,
+          deadline ?? record.record.workCompletionDeadline,
           record.satoshis // Use original bounty amount
         )
         console.log('Contract reconstituted with original parameters')
@@ -363,7 +860,32 @@ export default class Seeker {
     }
   }
 
-  private async populateDerivedPublicKey () {
+  /**
+   * Finds the contract that a platform ruling against the furnisher reopened for bidding,
+   * on contracts that survive such a ruling. Bids can then be listed and accepted on it
+   * as usual. Returns null if the ruling did not reopen the contract.
+   */
+  async getReopenedContract (disputed: EscrowTX): Promise<EscrowTX | null> {
+    // The ruling spent the disputed version, so whatever it reopened is the version after it
+    const lifecycle = await this.getLifecycle(disputed)
+    const index = lifecycle.findIndex(x => x.txid === disputed.record.txid && x.outputIndex === disputed.record.outputIndex)
+    const later = index === -1 ? [] : lifecycle.slice(index + 1)
+    if (later.length === 0 || !OPEN_STATUSES.includes(later[0].status)) return null
+    // Bidding may have moved the reopened contract on since, so take its latest version
+    const current = later[later.length - 1]
+    if (current.spendingTxid !== undefined) return null
+    const answer = await this.resolver.query({
+      service: this.globalConfig.service,
+      query: {
+        txid: current.txid,
+        outputIndex: current.outputIndex
+      }
+    })
+    const [reopened] = await resolveListedContent(recordsFromAnswer(answer), this.contentStore)
+    return reopened ?? null
+  }
+
+  private async populateDerivedPublicKey (): Promise<string> {
     if (typeof this.derivedPublicKey !== 'string') {
       const { publicKey } = await this.wallet.getPublicKey({
         counterparty: 'self',
@@ -372,6 +894,7 @@ export default class Seeker {
       })
       this.derivedPublicKey = publicKey
     }
+    return this.derivedPublicKey
   }
 
   private signatory () {
@@ -1,5 +1,30 @@
 export default `# Escrow Lookup Service
 
-To use this service, send a query that comprises a string "findAll".
+To find escrow contracts, send a structured query. Every field is optional, and each one given must match:
 
-All UTXOs will be returned.`
+- \`status\`: an array of contract statuses, such as \`['initial', 'bids-revealed']\`
+- \`contractType\`: \`'bid'\` or \`'bounty'\`
+- \`bounty\`: \`{ min, max }\` range of satoshis held by the contract
+- \`bidAmount\`: \`{ min, max }\` range of the accepted bid amount
+- \`deadline\`: \`{ min, max }\` range of the work completion deadline
+- \`seekerKey\`, \`platformKey\`: the key of that party
+- \`furnisherKey\`: the key of the furnisher whose bid was accepted
+- \`bondingMode\`: \`'forbidden'\`, \`'optional'\` or \`'required'\`
+- \`globalConfig\`: a GlobalConfig, limiting results to its platform unless \`platformKey\` is given
+- \`sort\`: \`{ by, direction }\`, where \`by\` is \`'deadline'\` (the default), \`'bounty'\` or \`'bidAmount'\`, and \`direction\` is \`'asc'\` (the default) or \`'desc'\`
+- \`limit\`: the most results to return, from 1 to 1000
+- \`cursor\`: the \`{ txid, outputIndex }\` of the last result of the previous page, to continue from it
+
+Ranges are inclusive, and either end may be left out. Unknown fields and malformed values are rejected with an error rather than ignored. Add \`find: 'all-open'\` to match only contracts still looking for a furnisher, or \`find: 'all-disputed'\` to match only contracts waiting on a ruling. These cannot be combined with \`status\`.
+
+To search work descriptions and bid plans, including the plans of off-chain bids made on any version of a contract, send \`{ find: 'search', terms }\`, where \`terms\` is a string of words such as \`'rust logo design'\`. Contracts mentioning any of the words are returned, most relevant first, with matches in the work description ranked above matches in plans. Put a phrase in double quotes to match it exactly, or prefix a word with \`-\` to exclude contracts that mention it. The filters and \`limit\` of a structured query can be added, but not \`sort\` or \`cursor\`. Descriptions and plans kept off-chain, with only their hash in the contract, cannot be searched.
+
+To fetch a specific contract, send \`{ txid, outputIndex }\`.
+
+To list the off-chain bids made against an escrow, send \`{ find: 'bids', txid, outputIndex }\` with the outpoint of any version of the escrow contract. Bids made against earlier versions are included, since furnishers sign them for the contract as a whole. Add \`asOf\` with the current lock time, in the contract's time unit, to leave out bids that expired before then.
+
+To list the backer contributions made to a crowdfunded bounty over its whole lifetime, send \`{ find: 'contributions', txid, outputIndex }\` with the outpoint of any version of the escrow contract. The total raised is the sum of their amounts.
+
+To follow a contract through its whole lifecycle, send \`{ find: 'lifecycle', txid, outputIndex }\` with the outpoint of any of its versions. The answer lists every version of the contract, oldest first, from its creation through bids, acceptance, submission, disputes and resolution, including versions that have since been spent. The context of each output is UTF-8 JSON naming the \`spendingTxid\` that replaced it and the \`spendingMethod\` that transaction called, both absent while the version is unspent. Each output's BEEF holds only the transaction that created that version, without the transactions it spent.
+
+To list the appealed rulings waiting on an appeal arbiter, send \`{ find: 'all-appealed', appealKey }\`.`
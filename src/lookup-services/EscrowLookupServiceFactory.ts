@@ -13,7 +13,17 @@ import docs from './EscrowLookupDocs.md.js'
 import escrowContractJson from '../../artifacts/Escrow.json' with { type: 'json' }
 import { EscrowContract } from '../contracts/Escrow.js'
 import { Db } from 'mongodb'
-import { recordFromContract } from '../utils.js'
+import { Transaction, Utils } from '@bsv/sdk'
+import type { EscrowRecord, GlobalConfig } from '../constants.js'
+import {
+  contributionFromLockingScript,
+  DISPUTED_STATUSES,
+  offChainBidFromLockingScript,
+  OPEN_STATUSES,
+  parseEscrowQuery,
+  recordFromContract,
+  spendingMethodFor
+} from '../utils.js'
 EscrowContract.loadArtifact(escrowContractJson)
 
 /**
@@ -24,32 +34,75 @@ EscrowContract.loadArtifact(escrowContractJson)
  * @public
  */
 class EscrowLookupService implements LookupService {
-  readonly admissionMode: AdmissionMode = 'locking-script'
-  readonly spendNotificationMode: SpendNotificationMode = 'none'
+  readonly admissionMode: AdmissionMode = 'whole-tx'
+  readonly spendNotificationMode: SpendNotificationMode = 'whole-tx'
   constructor (public storage: EscrowStorage) {}
 
   async outputAdmittedByTopic (payload: OutputAdmittedByTopic): Promise<void> {
-    if (payload.mode !== 'locking-script') throw new Error('Invalid payload')
-    const { topic, txid, outputIndex, lockingScript } = payload
+    if (payload.mode !== 'whole-tx') throw new Error('Invalid payload')
+    const { topic, atomicBEEF, outputIndex } = payload
     if (topic !== 'tm_escrow') return
+    // The raw transaction is kept with each contract version, so its history can be served once spent
+    const tx = Transaction.fromAtomicBEEF(atomicBEEF)
+    const txid = tx.id('hex')
+    const lockingScript = tx.outputs[outputIndex].lockingScript
+    let escrow: EscrowContract
     try {
       // Decode the Escrow token fields from the Bitcoin outputScript with the contract class
-      const escrow = EscrowContract.fromLockingScript(
+      escrow = EscrowContract.fromLockingScript(
         lockingScript.toHex()
       ) as EscrowContract
-
-      // Store the token fields for future lookup
-      await this.storage.storeRecord(recordFromContract(txid, outputIndex, escrow))
+    } catch (e) {
+      // Not a contract, so it should be an off-chain bid or a backer's contribution
+      try {
+        await this.storage.storeBid(offChainBidFromLockingScript(txid, outputIndex, lockingScript))
+        return
+      } catch (e) {}
+      try {
+        // The contribution was made in the same transaction as the contract version it funded
+        await this.storage.storeContribution({
+          ...contributionFromLockingScript(txid, outputIndex, lockingScript),
+          escrowTxid: txid,
+          escrowOutputIndex: 0
+        })
+      } catch (e) {
+        console.error('Error indexing bid or contribution in lookup database', e)
+      }
+      return
+    }
+    try {
+      // Store the token fields for future lookup, and keep them once spent
+      const record = recordFromContract(txid, outputIndex, escrow)
+      // Archived first, so the plans of bids made on earlier versions are found for search
+      await this.storage.archiveRecord(record, tx.toBinary(), tx.inputs.map(x => ({
+        txid: x.sourceTXID ?? x.sourceTransaction?.id('hex') ?? '',
+        outputIndex: x.sourceOutputIndex
+      })))
+      await this.storage.storeRecord(record, tx.outputs[outputIndex].satoshis)
     } catch (e) {
       console.error('Error indexing token in lookup database', e)
     }
   }
 
   async outputSpent (payload: OutputSpent): Promise<void> {
-    if (payload.mode !== 'none') throw new Error('Invalid payload')
-    const { topic, txid, outputIndex } = payload
+    if (payload.mode !== 'whole-tx') throw new Error('Invalid payload')
+    const { topic, txid, outputIndex, spendingAtomicBEEF } = payload
     if (topic !== 'tm_escrow') return
+    const spendingTx = Transaction.fromAtomicBEEF(spendingAtomicBEEF)
+    const spendingTxid = spendingTx.id('hex')
+    const input = spendingTx.inputs.find(x => (
+      (x.sourceTXID ?? x.sourceTransaction?.id('hex')) === txid && x.sourceOutputIndex === outputIndex
+    ))
+    // Only contract versions are archived, so this does nothing for bids and contributions
+    await this.storage.recordSpend(
+      txid,
+      outputIndex,
+      spendingTxid,
+      input?.unlockingScript !== undefined ? spendingMethodFor(input.unlockingScript) : undefined
+    )
     await this.storage.deleteRecord(txid, outputIndex)
+    await this.storage.deleteBid(txid, outputIndex)
+    await this.storage.deleteContribution(txid, outputIndex)
   }
 
   async outputEvicted (
@@ -57,6 +110,9 @@ class EscrowLookupService implements LookupService {
     outputIndex: number
   ): Promise<void> {
     await this.storage.deleteRecord(txid, outputIndex)
+    await this.storage.deleteArchivedRecord(txid, outputIndex)
+    await this.storage.deleteBid(txid, outputIndex)
+    await this.storage.deleteContribution(txid, outputIndex)
   }
 
   async lookup (
@@ -69,39 +125,90 @@ class EscrowLookupService implements LookupService {
       throw new Error('Lookup service not supported!')
     }
 
-    const query = question.query as {
-      findAll?: boolean
-      platformKey?: string
-      seekerKey?: string
-      furnisherKey?: string
+    const { find, globalConfig, findAll, terms, ...query } = question.query as {
       find?: string
+      globalConfig?: GlobalConfig
+      findAll?: boolean
+      terms?: string
       txid?: string
       outputIndex?: number
+      asOf?: number
+      appealKey?: string
+      [field: string]: unknown
     }
 
     // Handle specific queries
-    if (query.txid !== undefined) {
-      return await this.storage.findByTxid(query.txid, query.outputIndex)
+    if (find === 'bids') {
+      if (query.txid === undefined || query.outputIndex === undefined) {
+        throw new Error('Finding bids requires the txid and outputIndex of the escrow')
+      }
+      return await this.storage.findBidsForEscrow(query.txid, query.outputIndex, query.asOf)
     }
 
-    if (query.find === 'all-disputed' && query.platformKey) {
-      return await this.storage.findDisputed(query.platformKey)
+    if (find === 'contributions') {
+      if (query.txid === undefined || query.outputIndex === undefined) {
+        throw new Error('Finding contributions requires the txid and outputIndex of the escrow')
+      }
+      return await this.storage.findContributionsForEscrow(query.txid, query.outputIndex)
     }
 
-    if (query.platformKey) {
-      return await this.storage.findByPlatformKey(query.platformKey)
+    if (find === 'lifecycle') {
+      if (query.txid === undefined || query.outputIndex === undefined) {
+        throw new Error('Finding a lifecycle requires the txid and outputIndex of an escrow')
+      }
+      // Spent versions are served from the archive, each with how it was spent as context.
+      // Only raw transactions are archived, so their BEEF leaves out where their inputs came from.
+      const versions = await this.storage.findLifecycle(query.txid, query.outputIndex)
+      return {
+        type: 'output-list',
+        outputs: versions.map(x => ({
+          beef: Transaction.fromBinary(x.rawTx).toBEEF(true),
+          outputIndex: x.outputIndex,
+          context: Utils.toArray(JSON.stringify({ spendingTxid: x.spendingTxid, spendingMethod: x.spendingMethod }), 'utf8')
+        }))
+      }
     }
 
-    if (query.seekerKey) {
-      return await this.storage.findBySeekerKey(query.seekerKey)
+    if (find === 'all-appealed') {
+      if (query.appealKey === undefined) {
+        throw new Error('Finding appealed contracts requires the appealKey of the appeal authority')
+      }
+      return await this.storage.findAppealed(query.appealKey)
     }
 
-    if (query.furnisherKey) {
-      return await this.storage.findByFurnisherKey(query.furnisherKey)
+    if (find === undefined && query.txid !== undefined) {
+      return await this.storage.findByTxid(query.txid, query.outputIndex)
     }
 
-    // Default: return all
-    return await this.storage.findAll()
+    // Everything else is a structured query, which the shortcuts narrow by status
+    const shortcuts: Record<string, Array<EscrowRecord['status']> | undefined> = {
+      contracts: undefined,
+      search: undefined,
+      'all-open': OPEN_STATUSES,
+      'all-disputed': DISPUTED_STATUSES
+    }
+    if (find !== undefined && !(find in shortcuts)) {
+      throw new Error(`Unsupported query: find ${find}`)
+    }
+    const parsed = parseEscrowQuery(query)
+    if (find !== undefined && shortcuts[find] !== undefined) {
+      if (parsed.status !== undefined) throw new Error(`Invalid query: find ${find} cannot be combined with status`)
+      parsed.status = shortcuts[find]
+    }
+    // A GlobalConfig limits results to contracts made under that platform
+    if (globalConfig !== undefined && parsed.platformKey === undefined) {
+      parsed.platformKey = parseEscrowQuery({ platformKey: globalConfig.platformKey }).platformKey
+    }
+    if (find === 'search') {
+      if (typeof terms !== 'string' || terms.trim() === '') {
+        throw new Error('Invalid query: search requires terms to search for')
+      }
+      if (parsed.sort !== undefined || parsed.cursor !== undefined) {
+        throw new Error('Invalid query: search results are ordered by relevance, so sort and cursor are not supported')
+      }
+      return await this.storage.searchContracts(terms, parsed)
+    }
+    return await this.storage.findContracts(parsed)
   }
 
   async getDocumentation (): Promise<string> {
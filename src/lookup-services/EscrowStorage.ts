@@ -1,16 +1,99 @@
-import { Collection, Db } from 'mongodb'
-import { EscrowRecord, UTXOReference } from '../constants.js'
+import { Collection, Db, Filter, FilterOperators } from 'mongodb'
+import { Utils } from '@bsv/sdk'
+import { ContributionRecord, EscrowQuery, EscrowRecord, EscrowVersionRecord, NumberRange, OffChainBidRecord, UTXOReference } from '../constants.js'
+import { decodeContentCommitment, workDescriptionText } from '../utils.js'
+
+/**
+ * A tracked escrow, kept with the satoshis its output holds so bounties can be searched,
+ * and with its work description and bid plans decoded for text search. The plans include
+ * those of off-chain bids made on any version of the contract.
+ */
+export interface IndexedEscrowRecord extends EscrowRecord {
+  satoshis?: number // Absent on records indexed before bounties were kept
+  workDescriptionText: string
+  plansText: string
+}
+
+/**
+ * An archived contract version, kept with the raw transaction that created it and a link
+ * to the version it replaced
+ */
+export interface ArchivedEscrowVersion extends EscrowVersionRecord {
+  rawTx: number[]
+  previous?: UTXOReference // Absent on the first version of a contract
+}
+
+type SortKey = NonNullable<EscrowQuery['sort']>['by']
+
+const sortFields: Record<SortKey, string> = {
+  deadline: 'workCompletionDeadline',
+  bounty: 'satoshis',
+  bidAmount: 'acceptedBid.bidAmount'
+}
+
+const sortValues: Record<SortKey, (record: IndexedEscrowRecord) => number | undefined> = {
+  deadline: x => x.workCompletionDeadline,
+  bounty: x => x.satoshis,
+  bidAmount: x => x.acceptedBid.bidAmount
+}
+
+const rangeFilter = (range: NumberRange): FilterOperators<number> => {
+  const filter: FilterOperators<number> = {}
+  if (range.min !== undefined) filter.$gte = range.min
+  if (range.max !== undefined) filter.$lte = range.max
+  return filter
+}
+
+// Mongo sorts a missing value before any number, so records indexed without one come first
+// in ascending order and last in descending order. They match null, so paging still works.
+const sortedAfter = (field: string, value: number | undefined, direction: 1 | -1): Filter<IndexedEscrowRecord> => {
+  if (value === undefined) return direction === 1 ? { [field]: { $ne: null } } : { [field]: { $in: [] } }
+  if (direction === 1) return { [field]: { $gt: value } }
+  return { $or: [{ [field]: { $lt: value } }, { [field]: null }] }
+}
+
+const filterFor = (query: EscrowQuery): Filter<IndexedEscrowRecord> => {
+  const filter: Filter<IndexedEscrowRecord> = {}
+  if (query.status !== undefined) filter.status = { $in: query.status }
+  if (query.contractType !== undefined) filter.contractType = query.contractType
+  if (query.bondingMode !== undefined) filter.furnisherBondingMode = query.bondingMode
+  if (query.seekerKey !== undefined) filter.seekerKey = query.seekerKey
+  if (query.platformKey !== undefined) filter.platformKey = query.platformKey
+  if (query.furnisherKey !== undefined) filter['acceptedBid.furnisherKey'] = query.furnisherKey
+  if (query.bounty !== undefined) filter.satoshis = rangeFilter(query.bounty)
+  if (query.bidAmount !== undefined) filter['acceptedBid.bidAmount'] = rangeFilter(query.bidAmount)
+  if (query.deadline !== undefined) filter.workCompletionDeadline = rangeFilter(query.deadline)
+  return filter
+}
+
+// Contracts store text as hex, which would be meaningless to the text index. Content kept
+// off-chain is out of the overlay's reach, so it cannot be indexed.
+const decodedText = (hex: string): string => {
+  if (decodeContentCommitment(hex) !== undefined) return ''
+  try {
+    return Utils.toUTF8(Utils.toArray(hex, 'hex'))
+  } catch (e) {
+    return ''
+  }
+}
 
 // Implements a Lookup StorageEngine for Meter
 export class EscrowStorage {
-  private readonly records: Collection<EscrowRecord>
+  private readonly records: Collection<IndexedEscrowRecord>
+  private readonly bids: Collection<OffChainBidRecord>
+  private readonly contributions: Collection<ContributionRecord>
+  private readonly history: Collection<ArchivedEscrowVersion>
+  private indexes: Promise<void> | undefined
 
   /**
    * Constructs a new MeterStorageEngine instance
    * @param {Db} db - connected mongo database instance
    */
   constructor (private readonly db: Db) {
-    this.records = db.collection<EscrowRecord>('EscrowRecords')
+    this.records = db.collection<IndexedEscrowRecord>('EscrowRecords')
+    this.bids = db.collection<OffChainBidRecord>('EscrowBids')
+    this.contributions = db.collection<ContributionRecord>('EscrowContributions')
+    this.history = db.collection<ArchivedEscrowVersion>('EscrowHistory')
   }
 
   /**
@@ -18,10 +101,41 @@ export class EscrowStorage {
    * @param {string} txid transaction id
    * @param {number} outputIndex index of the UTXO
    * @param {string} value - meter value to save
+   * @param {number} satoshis - amount held by the escrow output
    */
-  async storeRecord (record: EscrowRecord): Promise<void> {
+  async storeRecord (record: EscrowRecord, satoshis?: number): Promise<void> {
     console.log('STORING', record)
-    await this.records.insertOne(record)
+    await this.records.insertOne({
+      ...record,
+      satoshis,
+      workDescriptionText: workDescriptionText(record.workDescription),
+      plansText: await this.plansTextFor(record)
+    })
+  }
+
+  /**
+   * The decoded plans of every bid on a contract, in its slots or made off-chain
+   */
+  private async plansTextFor (record: EscrowRecord): Promise<string> {
+    const offChainBids = await this.bids.find({ $or: await this.versionsOf(record.txid, record.outputIndex) }).toArray()
+    const plans = [record.acceptedBid, ...record.bids, ...offChainBids.map(x => x.bid)].map(x => decodedText(x.plans))
+    // An accepted off-chain bid is also in the contract, so its plans are only counted once
+    return [...new Set(plans.filter(x => x !== ''))].join('\n')
+  }
+
+  /**
+   * Brings the searchable plans of a contract's latest version up to date with its
+   * off-chain bids, after one is made or withdrawn against any of its versions
+   */
+  private async refreshPlansText (escrowTxid: string, escrowOutputIndex: number): Promise<void> {
+    const lifecycle = await this.findLifecycle(escrowTxid, escrowOutputIndex)
+    const latest = lifecycle[lifecycle.length - 1] ?? { txid: escrowTxid, outputIndex: escrowOutputIndex }
+    const record = await this.records.findOne({ txid: latest.txid, outputIndex: latest.outputIndex })
+    if (record === null) return
+    await this.records.updateOne(
+      { txid: record.txid, outputIndex: record.outputIndex },
+      { $set: { plansText: await this.plansTextFor(record) } }
+    )
   }
 
   /**
@@ -34,25 +148,74 @@ export class EscrowStorage {
   }
 
   /**
-   * Returns all results tracked by the overlay
-   * @returns {Promise<UTXOReference[]>} returns matching UTXO references
+   * Archives a version of an escrow contract, which is kept after it is spent. It is linked
+   * to whichever of the outputs its transaction spent is an earlier version.
    */
-  async findAll (): Promise<UTXOReference[]> {
-    console.log('Finding All')
-    return await this.records.find({})
-      .project<UTXOReference>({ txid: 1, outputIndex: 1 })
-      .toArray()
-      .then(results => results.map(record => ({
-        txid: record.txid,
-        outputIndex: record.outputIndex
-      })))
+  async archiveRecord (record: EscrowRecord, rawTx: number[], spent: UTXOReference[]): Promise<void> {
+    const version: ArchivedEscrowVersion = { ...record, rawTx }
+    const previous = spent.length > 0 ? await this.history.findOne({ $or: spent }) : null
+    if (previous !== null) version.previous = { txid: previous.txid, outputIndex: previous.outputIndex }
+    await this.history.insertOne(version)
+  }
+
+  /**
+   * Links an archived version to the transaction that spent it, and the method it called
+   */
+  async recordSpend (txid: string, outputIndex: number, spendingTxid: string, spendingMethod?: string): Promise<void> {
+    const spend: Partial<EscrowVersionRecord> = { spendingTxid }
+    if (spendingMethod !== undefined) spend.spendingMethod = spendingMethod
+    await this.history.updateOne({ txid, outputIndex }, { $set: spend })
+  }
+
+  /**
+   * Delete an archived version, for outputs that must be forgotten entirely
+   */
+  async deleteArchivedRecord (txid: string, outputIndex: number): Promise<void> {
+    await this.history.deleteOne({ txid, outputIndex })
+  }
+
+  /**
+   * Find every version of the contract that an output belongs to, oldest first. Any
+   * version can be given, the chain is followed both ways from it.
+   */
+  async findLifecycle (txid: string, outputIndex: number): Promise<ArchivedEscrowVersion[]> {
+    const versionAt = async (filter: Filter<ArchivedEscrowVersion>): Promise<ArchivedEscrowVersion | null> => {
+      return await this.history.findOne(filter, { projection: { _id: 0 } })
+    }
+    const versionAfter = async (version: ArchivedEscrowVersion): Promise<ArchivedEscrowVersion | null> => {
+      return await versionAt({ 'previous.txid': version.txid, 'previous.outputIndex': version.outputIndex })
+    }
+    const start = await versionAt({ txid, outputIndex })
+    if (start === null) return []
+    const lifecycle = [start]
+    let earlier = start.previous !== undefined ? await versionAt(start.previous) : null
+    while (earlier !== null) {
+      lifecycle.unshift(earlier)
+      earlier = earlier.previous !== undefined ? await versionAt(earlier.previous) : null
+    }
+    let later = await versionAfter(start)
+    while (later !== null) {
+      lifecycle.push(later)
+      later = await versionAfter(later)
+    }
+    return lifecycle
+  }
+
+  /**
+   * Every version of the contract an output belongs to, as the escrow outpoints bids and
+   * contributions name. Outputs the overlay has not archived stand for themselves.
+   */
+  private async versionsOf (escrowTxid: string, escrowOutputIndex: number): Promise<Array<Pick<OffChainBidRecord, 'escrowTxid' | 'escrowOutputIndex'>>> {
+    const lifecycle = await this.findLifecycle(escrowTxid, escrowOutputIndex)
+    if (lifecycle.length === 0) return [{ escrowTxid, escrowOutputIndex }]
+    return lifecycle.map(x => ({ escrowTxid: x.txid, escrowOutputIndex: x.outputIndex }))
   }
 
   /**
    * Find escrow by txid and optional outputIndex
    */
   async findByTxid (txid: string, outputIndex?: number): Promise<UTXOReference[]> {
-    const filter: any = { txid }
+    const filter: Filter<IndexedEscrowRecord> = { txid }
     if (outputIndex !== undefined) {
       filter.outputIndex = outputIndex
     }
@@ -66,13 +229,30 @@ export class EscrowStorage {
   }
 
   /**
-   * Find all disputed escrows for a specific platform
+   * Find the escrows matching every filter in a structured query, in the order it asks
+   * for. Pages continue after the cursor, which is the last result of the previous page.
    */
-  async findDisputed (platformKey: string): Promise<UTXOReference[]> {
-    return await this.records.find({
-      platformKey,
-      status: { $in: ['disputed-by-seeker', 'disputed-by-furnisher'] }
-    })
+  async findContracts (query: EscrowQuery): Promise<UTXOReference[]> {
+    await this.ensureIndexes()
+    const filter = filterFor(query)
+
+    // Ties are broken by outpoint, so every result has a stable place to resume after
+    const by = query.sort?.by ?? 'deadline'
+    const field = sortFields[by]
+    const direction = query.sort?.direction === 'desc' ? -1 : 1
+    if (query.cursor !== undefined) {
+      const last = await this.records.findOne({ txid: query.cursor.txid, outputIndex: query.cursor.outputIndex })
+      if (last === null) throw new Error('Query cursor does not refer to a contract the overlay is tracking')
+      const value = sortValues[by](last)
+      filter.$or = [
+        sortedAfter(field, value, direction),
+        { [field]: value ?? null, txid: { $gt: last.txid } },
+        { [field]: value ?? null, txid: last.txid, outputIndex: { $gt: last.outputIndex } }
+      ]
+    }
+    let results = this.records.find(filter).sort({ [field]: direction, txid: 1, outputIndex: 1 })
+    if (query.limit !== undefined) results = results.limit(query.limit)
+    return await results
       .project<UTXOReference>({ txid: 1, outputIndex: 1 })
       .toArray()
       .then(results => results.map(record => ({
@@ -82,10 +262,56 @@ export class EscrowStorage {
   }
 
   /**
-   * Find escrows by platform key
+   * Find the escrows whose work description or bid plans mention any of the search
+   * terms and that match the query's filters, most relevant first. Matches in the work
+   * description count for more than matches in plans.
    */
-  async findByPlatformKey (platformKey: string): Promise<UTXOReference[]> {
-    return await this.records.find({ platformKey })
+  async searchContracts (terms: string, query: EscrowQuery): Promise<UTXOReference[]> {
+    await this.ensureIndexes()
+    let results = this.records
+      .find({ ...filterFor(query), $text: { $search: terms } })
+      .project<IndexedEscrowRecord & { score: number }>({ txid: 1, outputIndex: 1, score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' }, txid: 1, outputIndex: 1 })
+    if (query.limit !== undefined) results = results.limit(query.limit)
+    return await results
+      .toArray()
+      .then(results => results.map(record => ({
+        txid: record.txid,
+        outputIndex: record.outputIndex
+      })))
+  }
+
+  /**
+   * Creates the indexes structured queries rely on, once per storage instance
+   */
+  async ensureIndexes (): Promise<void> {
+    this.indexes ??= Promise.all([
+      this.records.createIndex({ txid: 1, outputIndex: 1 }),
+      this.records.createIndex({ status: 1, workCompletionDeadline: 1 }),
+      this.records.createIndex({ contractType: 1 }),
+      this.records.createIndex({ furnisherBondingMode: 1 }),
+      this.records.createIndex({ seekerKey: 1 }),
+      this.records.createIndex({ platformKey: 1 }),
+      this.records.createIndex({ 'acceptedBid.furnisherKey': 1 }),
+      this.records.createIndex({ satoshis: 1 }),
+      this.records.createIndex({ 'acceptedBid.bidAmount': 1 }),
+      this.records.createIndex({ workCompletionDeadline: 1 }),
+      this.records.createIndex(
+        { workDescriptionText: 'text', plansText: 'text' },
+        { name: 'EscrowSearch', weights: { workDescriptionText: 3, plansText: 1 } }
+      )
+    ]).then(() => {})
+    await this.indexes
+  }
+
+  /**
+   * Find all appealed escrows waiting on a specific appeal arbiter
+   */
+  async findAppealed (appealKey: string): Promise<UTXOReference[]> {
+    return await this.records.find({
+      appealKey,
+      status: { $in: ['appealed-by-seeker', 'appealed-by-furnisher'] }
+    })
       .project<UTXOReference>({ txid: 1, outputIndex: 1 })
       .toArray()
       .then(results => results.map(record => ({
@@ -95,10 +321,40 @@ export class EscrowStorage {
   }
 
   /**
-   * Find escrows by seeker key
+   * Stores an off-chain bid
+   */
+  async storeBid (record: OffChainBidRecord): Promise<void> {
+    await this.bids.insertOne(record)
+    await this.refreshPlansText(record.escrowTxid, record.escrowOutputIndex)
+  }
+
+  /**
+   * Delete a matching off-chain bid
+   * @param {string} txid transaction id
+   * @param {number} outputIndex Output index of the bid UTXO
+   */
+  async deleteBid (txid: string, outputIndex: number): Promise<void> {
+    const deleted = await this.bids.findOneAndDelete({ txid, outputIndex })
+    if (deleted !== null) await this.refreshPlansText(deleted.escrowTxid, deleted.escrowOutputIndex)
+  }
+
+  /**
+   * Find the off-chain bids made against an escrow, on any version of the contract. Bids
+   * are signed for the contract as a whole, so they stay open as it moves on.
    */
-  async findBySeekerKey (seekerKey: string): Promise<UTXOReference[]> {
-    return await this.records.find({ seekerKey })
+  async findBidsForEscrow (escrowTxid: string, escrowOutputIndex: number, asOf?: number): Promise<UTXOReference[]> {
+    const filter: Filter<OffChainBidRecord> = { $or: await this.versionsOf(escrowTxid, escrowOutputIndex) }
+    if (asOf !== undefined) {
+      // Prune bids that expired before the given lock time
+      filter.$and = [{
+        $or: [
+          { 'bid.validUntil': { $exists: false } },
+          { 'bid.validUntil': 0 },
+          { 'bid.validUntil': { $gte: asOf } }
+        ]
+      }]
+    }
+    return await this.bids.find(filter)
       .project<UTXOReference>({ txid: 1, outputIndex: 1 })
       .toArray()
       .then(results => results.map(record => ({
@@ -108,10 +364,27 @@ export class EscrowStorage {
   }
 
   /**
-   * Find escrows by furnisher key (in acceptedBid)
+   * Stores a backer's contribution against the contract version it created
+   */
+  async storeContribution (record: ContributionRecord): Promise<void> {
+    await this.contributions.insertOne(record)
+  }
+
+  /**
+   * Delete a matching contribution
+   * @param {string} txid transaction id
+   * @param {number} outputIndex Output index of the contribution UTXO
+   */
+  async deleteContribution (txid: string, outputIndex: number): Promise<void> {
+    await this.contributions.deleteOne({ txid, outputIndex })
+  }
+
+  /**
+   * Find every contribution made to an escrow over its lifetime. Each contribution stays
+   * with the version its top-up created, so every version of the contract is searched.
    */
-  async findByFurnisherKey (furnisherKey: string): Promise<UTXOReference[]> {
-    return await this.records.find({ 'acceptedBid.furnisherKey': furnisherKey })
+  async findContributionsForEscrow (escrowTxid: string, escrowOutputIndex: number): Promise<UTXOReference[]> {
+    return await this.contributions.find({ $or: await this.versionsOf(escrowTxid, escrowOutputIndex) })
       .project<UTXOReference>({ txid: 1, outputIndex: 1 })
       .toArray()
       .then(results => results.map(record => ({
@@ -0,0 +1,14 @@
+import type { DisputeMessage } from '../constants.js'
+
+/**
+ * Carries dispute notifications from the parties to a platform's inbox.
+ *
+ * Implementations decide how messages travel and where the inbox lives. Senders fill in
+ * everything except the id, the time sent and the acknowledgement flag, which the
+ * messenger assigns.
+ */
+export interface DisputeMessenger {
+  send: (platformKey: string, message: Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged'>) => Promise<DisputeMessage>
+  listInbox: (platformKey: string, includeAcknowledged?: boolean) => Promise<DisputeMessage[]>
+  acknowledge: (platformKey: string, id: string) => Promise<void>
+}
@@ -0,0 +1,32 @@
+import type { DisputeMessage } from '../constants.js'
+import type { DisputeMessenger } from './DisputeMessenger.js'
+
+/**
+ * DisputeMessenger that talks to inboxes served by InMemoryDisputeMessenger.listen().
+ */
+export default class HttpDisputeMessenger implements DisputeMessenger {
+  constructor (private readonly baseURL: string = 'http://localhost:3323') {}
+
+  async send (platformKey: string, message: Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged'>): Promise<DisputeMessage> {
+    return await this.request('POST', `/inbox/${platformKey}`, message)
+  }
+
+  async listInbox (platformKey: string, includeAcknowledged: boolean = false): Promise<DisputeMessage[]> {
+    return await this.request('GET', `/inbox/${platformKey}${includeAcknowledged ? '?all=true' : ''}`)
+  }
+
+  async acknowledge (platformKey: string, id: string): Promise<void> {
+    await this.request('POST', `/inbox/${platformKey}/${id}/acknowledge`)
+  }
+
+  private async request (method: 'GET' | 'POST', path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${this.baseURL}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    const result: any = await response.json()
+    if (!response.ok) throw new Error(`Dispute inbox request failed: ${String(result.error)}`)
+    return result
+  }
+}
@@ -0,0 +1,95 @@
+import { createServer, IncomingMessage, Server } from 'node:http'
+import { Random, Utils } from '@bsv/sdk'
+import type { DisputeMessage } from '../constants.js'
+import { disputeMessageSigned } from '../utils.js'
+import type { DisputeMessenger } from './DisputeMessenger.js'
+
+/**
+ * Reference DisputeMessenger that keeps every platform's inbox in memory.
+ *
+ * Parties in the same process can share one instance directly. Calling listen() also
+ * serves the inboxes over local HTTP, for parties using HttpDisputeMessenger:
+ *
+ * - `POST /inbox/:platformKey` with a message body sends it
+ * - `GET /inbox/:platformKey?all=true` lists the inbox, including acknowledged messages
+ * - `POST /inbox/:platformKey/:id/acknowledge` acknowledges a message
+ *
+ * Messages are only taken when signed by the key they claim to be from, for the inbox
+ * they are sent to. Listing and acknowledging are not authenticated, so only expose it
+ * on a trusted network.
+ */
+export default class InMemoryDisputeMessenger implements DisputeMessenger {
+  private readonly inboxes = new Map<string, DisputeMessage[]>()
+
+  async send (platformKey: string, message: Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged'>): Promise<DisputeMessage> {
+    if (!disputeMessageSigned(platformKey, message)) {
+      throw new Error('Dispute message must be signed by its sender')
+    }
+    const stored: DisputeMessage = {
+      ...message,
+      id: Utils.toHex(Random(16)),
+      sentAt: Math.floor(Date.now() / 1000),
+      acknowledged: false
+    }
+    this.inboxFor(platformKey).push(stored)
+    return stored
+  }
+
+  async listInbox (platformKey: string, includeAcknowledged: boolean = false): Promise<DisputeMessage[]> {
+    return this.inboxFor(platformKey).filter(x => includeAcknowledged || !x.acknowledged)
+  }
+
+  async acknowledge (platformKey: string, id: string): Promise<void> {
+    const message = this.inboxFor(platformKey).find(x => x.id === id)
+    if (message === undefined) throw new Error(`No dispute message ${id} in this inbox`)
+    message.acknowledged = true
+  }
+
+  /**
+   * Serves the inboxes over HTTP on the given port until the returned server is closed.
+   */
+  async listen (port: number = 3323): Promise<Server> {
+    const server = createServer((req, res) => {
+      const respond = (status: number, body: unknown): void => {
+        res.writeHead(status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(body))
+      }
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      const [root, platformKey, id, action] = url.pathname.split('/').filter(x => x !== '')
+      if (root !== 'inbox' || platformKey === undefined) return respond(404, { error: 'Not found' })
+      const handle = async (): Promise<unknown> => {
+        if (req.method === 'GET' && id === undefined) {
+          return await this.listInbox(platformKey, url.searchParams.get('all') === 'true')
+        }
+        if (req.method === 'POST' && id === undefined) {
+          return await this.send(platformKey, JSON.parse(await readBody(req)))
+        }
+        if (req.method === 'POST' && action === 'acknowledge') {
+          await this.acknowledge(platformKey, id)
+          return { acknowledged: true }
+        }
+        throw new Error('Unsupported request')
+      }
+      handle()
+        .then(body => respond(200, body))
+        .catch(e => respond(400, { error: e instanceof Error ? e.message : String(e) }))
+    })
+    await new Promise<void>(resolve => server.listen(port, resolve))
+    return server
+  }
+
+  private inboxFor (platformKey: string): DisputeMessage[] {
+    let inbox = this.inboxes.get(platformKey)
+    if (inbox === undefined) {
+      inbox = []
+      this.inboxes.set(platformKey, inbox)
+    }
+    return inbox
+  }
+}
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  let body = ''
+  for await (const chunk of req) body += String(chunk)
+  return body
+}
@@ -4,4 +4,8 @@ To have outputs accepted into the Escrow overlay network, use the Escrow sCrypt
 
 Submit transactions that start new escrow contracts, or spend existing ones already submitted in a valid way.
 
+Off-chain bids are also accepted. These are PushDrop outputs locked to the bidding furnisher, with a JSON bid as the first field and the furnisher's signature over it as the second. The JSON also carries the furnisher's signature over the bid and the contract's seeker, platform and work description, which the contract checks when the bid is accepted.
+
+Backer contributions to crowdfunded bounties are accepted in the same way, with the backer's key, the amount and the funded escrow outpoint as the JSON field. A contribution is only admitted when its transaction spends that escrow and raises the bounty in output 0 by exactly the amount contributed.
+
 The latest state of all active escrows will be tracked, and will be available through the corresponding Escrow Lookup Service.`
@@ -3,6 +3,7 @@ import { Transaction, ProtoWallet, Utils } from '@bsv/sdk'
 import docs from './EscrowTopicDocs.md.js'
 import escrowContractJson from '../../artifacts/Escrow.json' with { type: 'json' }
 import { EscrowContract } from '../contracts/Escrow.js'
+import { contributionFromLockingScript, offChainBidFromLockingScript } from '../utils.js'
 EscrowContract.loadArtifact(escrowContractJson)
 
 export default class EscrowTopicManager implements TopicManager {
@@ -30,8 +31,20 @@ export default class EscrowTopicManager implements TopicManager {
           console.log(escrow)
           outputsToAdmit.push(i)
         } catch (error) {
-          // Continue processing other outputs
-          continue
+          // Not a contract, but it may still be a validly signed off-chain bid
+          try {
+            offChainBidFromLockingScript(parsedTransaction.id('hex'), i, output.lockingScript)
+            outputsToAdmit.push(i)
+            continue
+          } catch (error) {}
+          // Or a backer's contribution, which must match the bounty increase it sits beside
+          try {
+            this.verifyContribution(parsedTransaction, i)
+            outputsToAdmit.push(i)
+          } catch (error) {
+            // Continue processing other outputs
+            continue
+          }
         }
       }
       if (outputsToAdmit.length === 0) {
@@ -50,6 +63,29 @@ export default class EscrowTopicManager implements TopicManager {
     }
   }
 
+  /**
+   * Checks that a contribution spends the escrow it names and raises the bounty in
+   * output 0 by exactly the amount contributed
+   * @param tx - The transaction carrying the contribution
+   * @param outputIndex - The output index of the contribution
+   */
+  private verifyContribution (tx: Transaction, outputIndex: number): void {
+    const contribution = contributionFromLockingScript(tx.id('hex'), outputIndex, tx.outputs[outputIndex].lockingScript)
+    const input = tx.inputs.find(x => (
+      (x.sourceTXID ?? x.sourceTransaction?.id('hex')) === contribution.escrowTxid &&
+      x.sourceOutputIndex === contribution.escrowOutputIndex
+    ))
+    const funded = input?.sourceTransaction?.outputs[input.sourceOutputIndex]
+    if (funded === undefined) {
+      throw new Error('Contribution must spend the escrow it funds')
+    }
+    EscrowContract.fromLockingScript(funded.lockingScript.toHex())
+    EscrowContract.fromLockingScript(tx.outputs[0].lockingScript.toHex())
+    if ((tx.outputs[0].satoshis ?? 0) - (funded.satoshis ?? 0) !== contribution.amount) {
+      throw new Error('Contribution amount does not match the bounty increase')
+    }
+  }
+
   /**
    * Get the documentation associated with this topic manager
    * @returns A promise that resolves to a string containing the documentation
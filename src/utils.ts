@@ -1,9 +1,41 @@
-import { CreateActionOutput, LockingScript, LookupAnswer, PrivateKey, Transaction, TransactionSignature, WalletInterface, Hash } from "@bsv/sdk"
-import { EscrowRecord, EscrowTX, GlobalConfig } from "./constants.js"
-import { EscrowContract } from "./contracts/Escrow.js"
-import { bsv, fill, PubKey, Sig, SmartContract, toByteString } from "scrypt-ts"
+import { BigNumber, CreateActionOutput, LockingScript, LookupAnswer, OP, P2PKH, PrivateKey, PublicKey, PushDrop, SatoshisPerKilobyte, Script, SignActionResult, Signature, Transaction, TransactionSignature, UnlockingScript, WalletInterface, Hash, Utils } from '@bsv/sdk'
+import { AllowList, AllowListProof, Bid, BidAcceptanceAuthorization, ContentCommitment, ContractCallParam, ContractCallSignatory, ContractCallValue, ContributionRecord, DisputeMessage, EscrowMethodName, EscrowPublicMethod, EscrowQuery, EscrowRecord, EscrowTX, EscrowVersionRecord, EvidenceCommitment, GlobalConfig, Milestone, MilestoneProgress, NumberRange, OffChainBidRecord, OffChainBidTX, PendingContractCall, PendingContractCallInput, PendingContractCallParam, ResolvedContent, SealedBidding, WorkSpec } from './constants.js'
+import type { ContentStore } from './content/ContentStore.js'
+import { Bid as ContractBid, EscrowContract } from './contracts/Escrow.js'
+import { bsv, ByteString, fill, FixedArray, int2ByteString, PubKey, sha256, Sig, SmartContract, toByteString } from 'scrypt-ts'
 
 const blankSig = Sig(toByteString(new PrivateKey(1).sign([]).toDER('hex') as string))
+// Sig() rejects an empty signature, but abstaining arbiters must push exactly that
+const emptySig = toByteString('') as Sig
+
+// Signatures made once the transaction is built, or never, take up a blank one until then
+const blankSignature = (x: ContractCallParam): ContractCallValue => typeof x === 'function' || x === 'WONTSIGN' ? blankSig : x
+
+const isOpenSignature = (x: PendingContractCallInput): x is { signerKey: string, optional?: boolean } => (
+    typeof x === 'object' && !Array.isArray(x) && 'signerKey' in x
+)
+
+/**
+ * The arbiter signatures for a resolveDispute call that the panel takes no part in.
+ */
+export const noPanelSignatures = (): FixedArray<Sig, 5> => fill(emptySig, 5)
+
+const statusName = (status: bigint): EscrowRecord['status'] => {
+    switch (status) {
+        case EscrowContract.STATUS_INITIAL: return 'initial'
+        case EscrowContract.STATUS_BID_ACCEPTED: return 'bid-accepted'
+        case EscrowContract.STATUS_WORK_STARTED: return 'work-started'
+        case EscrowContract.STATUS_WORK_SUBMITTED: return 'work-submitted'
+        case EscrowContract.STATUS_RESOLVED: return 'resolved'
+        case EscrowContract.STATUS_DISPUTED_BY_SEEKER: return 'disputed-by-seeker'
+        case EscrowContract.STATUS_PROVISIONALLY_RESOLVED: return 'provisionally-resolved'
+        case EscrowContract.STATUS_APPEALED_BY_SEEKER: return 'appealed-by-seeker'
+        case EscrowContract.STATUS_APPEALED_BY_FURNISHER: return 'appealed-by-furnisher'
+        case EscrowContract.STATUS_REVEALING_BIDS: return 'revealing-bids'
+        case EscrowContract.STATUS_BIDS_REVEALED: return 'bids-revealed'
+        default: return 'disputed-by-furnisher'
+    }
+}
 
 export const recordFromContract = (txid: string, outputIndex: number, escrow: EscrowContract): EscrowRecord => ({
     txid,
@@ -39,13 +71,30 @@ export const recordFromContract = (txid: string, outputIndex: number, escrow: Es
         : escrow.bountyIncreaseCutoffPoint === EscrowContract.INCREASE_CUTOFF_START_OF_WORK ? 'start-of-work'
         : escrow.bountyIncreaseCutoffPoint === EscrowContract.INCREASE_CUTOFF_SUBMISSION_OF_WORK ? 'submission-of-work'
         :  'acceptance-of-work',
+    abandonedWorkRefundAllowed: escrow.abandonedWorkRefundAllowed === 1n,
+    abandonedWorkGracePeriod: Number(escrow.abandonedWorkGracePeriod),
+    approvalTimeoutReleasesPayment: escrow.approvalTimeoutReleasesPayment === 1n,
+    evidencePeriod: Number(escrow.evidencePeriod),
+    panelKeys: Array.from(escrow.panelKeys.values()).slice(0, Number(escrow.panelSize)).map(x => x.toString()),
+    panelThreshold: Number(escrow.panelThreshold),
+    appealKey: escrow.appealKey.toString(),
+    appealPeriod: Number(escrow.appealPeriod),
+    milestones: milestoneProgressFor(escrow),
+    milestonesReleased: Number(escrow.milestonesReleased),
+    allowedFurnishers: Array.from(escrow.allowedFurnishers.values()).slice(0, Number(escrow.allowedFurnisherCount)).map(x => x.toString()),
+    allowListRoot: escrow.allowListRoot.toString(),
+    sealedBidding: escrow.sealedBidding === 1n,
+    commitDeadline: Number(escrow.commitDeadline),
+    revealDeadline: Number(escrow.revealDeadline),
+    bidCommitments: Array.from(escrow.bidCommitments.values()).map(x => x.toString()),
     bids: Array.from(escrow.bids.values()).map(x => ({
         furnisherKey: x.furnisherKey.toString(),
         plans: x.plans.toString(),
         bidAmount: Number(x.bidAmount),
         bond: Number(x.bond),
         timeOfBid: Number(x.timeOfBid),
-        timeRequired: Number(x.timeRequired)
+        timeRequired: Number(x.timeRequired),
+        validUntil: Number(x.validUntil)
     })),
     seekerKey: escrow.seekerKey,
     platformKey: escrow.platformKey,
@@ -55,23 +104,252 @@ export const recordFromContract = (txid: string, outputIndex: number, escrow: Es
         bidAmount: Number(escrow.acceptedBid.bidAmount),
         bond: Number(escrow.acceptedBid.bond),
         timeOfBid: Number(escrow.acceptedBid.timeOfBid),
-        timeRequired: Number(escrow.acceptedBid.timeRequired)
+        timeRequired: Number(escrow.acceptedBid.timeRequired),
+        validUntil: Number(escrow.acceptedBid.validUntil)
     },
     bidAcceptedBy: escrow.bidAcceptedBy === EscrowContract.BID_ACCEPTED_BY_PLATFORM ? 'platform'
         : escrow.bidAcceptedBy === EscrowContract.BID_ACCEPTED_BY_SEEKER ? 'seeker'
         : 'not-yet-accepted',
     workCompletionTime: Number(escrow.workCompletionTime),
-    status: escrow.status === EscrowContract.STATUS_INITIAL ? 'initial'
-        : escrow.status === EscrowContract.STATUS_BID_ACCEPTED ? 'bid-accepted'
-        : escrow.status === EscrowContract.STATUS_WORK_STARTED ? 'work-started'
-        : escrow.status === EscrowContract.STATUS_WORK_SUBMITTED ? 'work-submitted'
-        : escrow.status === EscrowContract.STATUS_RESOLVED ? 'resolved'
-        : escrow.status === EscrowContract.STATUS_DISPUTED_BY_SEEKER ? 'disputed-by-seeker'
-        : 'disputed-by-furnisher',
+    status: statusName(escrow.status),
     workDescription: escrow.workDescription.toString(),
-    workCompletionDescription: escrow.workCompletionDescription.toString()
+    workCompletionDescription: escrow.workCompletionDescription.toString(),
+    disputeTime: Number(escrow.disputeTime),
+    seekerEvidenceHash: escrow.seekerEvidenceHash.toString(),
+    furnisherEvidenceHash: escrow.furnisherEvidenceHash.toString(),
+    rulingTime: Number(escrow.rulingTime),
+    rulingAmountForSeeker: Number(escrow.rulingAmountForSeeker),
+    rulingAmountForFurnisher: Number(escrow.rulingAmountForFurnisher),
+    ...workSpecsFor(escrow.workDescription, escrow.workCompletionDescription)
 })
 
+const workSpecsFor = (workDescription: string, workCompletionDescription: string): Pick<EscrowRecord, 'workSpec' | 'workCompletionSpec'> => {
+    const workSpec = decodeWorkSpec(workDescription)
+    const workCompletionSpec = decodeWorkSpec(workCompletionDescription)
+    return {
+        ...(workSpec !== undefined ? { workSpec } : {}),
+        ...(workCompletionSpec !== undefined ? { workCompletionSpec } : {})
+    }
+}
+
+const isStringArray = (x: unknown): x is string[] => Array.isArray(x) && x.every(y => typeof y === 'string')
+
+const workSpecProblem = (spec: any): string | undefined => {
+    if (typeof spec !== 'object' || spec === null) return 'must be an object'
+    if (spec.version !== 1) return 'version must be 1'
+    if (typeof spec.title !== 'string' || spec.title.trim() === '') return 'title must be a non-empty string'
+    if (typeof spec.body !== 'string') return 'body must be a string'
+    if (!isStringArray(spec.tags)) return 'tags must be an array of strings'
+    if (spec.category !== undefined && typeof spec.category !== 'string') return 'category must be a string'
+    if (!isStringArray(spec.acceptanceCriteria)) return 'acceptanceCriteria must be an array of strings'
+    if (!Array.isArray(spec.attachments)) return 'attachments must be an array'
+    for (const attachment of spec.attachments) {
+        if (typeof attachment !== 'object' || attachment === null || typeof attachment.name !== 'string' ||
+            typeof attachment.hash !== 'string' || !/^[0-9a-f]{64}$/.test(attachment.hash) ||
+            (attachment.mediaType !== undefined && typeof attachment.mediaType !== 'string')) {
+            return 'each attachment needs a name and the hex SHA-256 of its content'
+        }
+    }
+    return undefined
+}
+
+/**
+ * Encodes a WorkSpec as the UTF-8 JSON a contract carries for it, after checking it
+ * is well formed.
+ */
+export const encodeWorkSpec = (spec: WorkSpec): ByteString => {
+    const problem = workSpecProblem(spec)
+    if (problem !== undefined) throw new Error(`Invalid work spec: ${problem}`)
+    const { version, title, body, tags, category, acceptanceCriteria, attachments } = spec
+    return toByteString(JSON.stringify({ version, title, body, tags, category, acceptanceCriteria, attachments }), true)
+}
+
+/**
+ * Decodes the WorkSpec a contract carries, or returns undefined when the description is
+ * plain text or a version this code does not understand.
+ */
+export const decodeWorkSpec = (description: string): WorkSpec | undefined => {
+    try {
+        const spec = JSON.parse(Utils.toUTF8(Utils.toArray(description, 'hex')))
+        return workSpecProblem(spec) === undefined ? spec : undefined
+    } catch (e) {
+        return undefined
+    }
+}
+
+/**
+ * Encodes a work or completion description for a contract. Plain text is carried as UTF-8.
+ */
+export const encodeWorkDescription = (description: string | WorkSpec | ContentCommitment): ByteString => {
+    if (typeof description === 'string') return toByteString(description, true)
+    return 'sha256' in description ? encodeContentCommitment(description) : encodeWorkSpec(description)
+}
+
+/**
+ * The readable text of a work or completion description, whichever form it takes
+ */
+export const workDescriptionText = (description: string): string => {
+    if (decodeContentCommitment(description) !== undefined) return ''
+    const spec = decodeWorkSpec(description)
+    if (spec !== undefined) {
+        return [spec.title, spec.body, ...spec.tags, spec.category ?? '', ...spec.acceptanceCriteria].filter(x => x !== '').join('\n')
+    }
+    try {
+        return Utils.toUTF8(Utils.toArray(description, 'hex'))
+    } catch (e) {
+        return ''
+    }
+}
+
+const contentCommitmentPrefix = toByteString('sha256:', true)
+
+/**
+ * Encodes a commitment to off-chain content, to carry in a contract in place of it
+ */
+export const encodeContentCommitment = (commitment: ContentCommitment): ByteString => {
+    if (!/^[0-9a-f]{64}$/.test(commitment.sha256)) throw new Error('Content commitment must be a hex SHA-256')
+    return contentCommitmentPrefix + toByteString(commitment.sha256)
+}
+
+/**
+ * Decodes the commitment a contract carries in place of off-chain content, or returns
+ * undefined when the content is carried inline.
+ */
+export const decodeContentCommitment = (value: string): ContentCommitment | undefined => {
+    if (!value.startsWith(contentCommitmentPrefix)) return undefined
+    const sha256 = value.slice(contentCommitmentPrefix.length)
+    return /^[0-9a-f]{64}$/.test(sha256) ? { sha256 } : undefined
+}
+
+/**
+ * Puts content encoded for a contract into a store, and returns the commitment to carry
+ * in its place. The store's answer is checked against the content's own hash.
+ */
+export const commitContent = async (store: ContentStore, content: ByteString): Promise<ContentCommitment> => {
+    const bytes = Utils.toArray(content, 'hex')
+    const sha256 = Utils.toHex(Hash.sha256(bytes))
+    if (await store.put(bytes) !== sha256) throw new Error('Content store returned the wrong hash for stored content')
+    return { sha256 }
+}
+
+/**
+ * Content encoded for a contract as the contract should carry it: inline without a store,
+ * or committed to by hash with one.
+ */
+export const contentForContract = async (content: ByteString, store?: ContentStore): Promise<ByteString> => {
+    if (store === undefined) return content
+    return encodeContentCommitment(await commitContent(store, content))
+}
+
+/**
+ * What a value carried by a contract stands for. Commitments are fetched from the store
+ * and checked against their hash, and anything carried inline is returned as it is.
+ */
+export const resolveContent = async (value: string, store?: ContentStore): Promise<string> => {
+    const commitment = decodeContentCommitment(value)
+    if (commitment === undefined) return value
+    if (store === undefined) throw new Error(`Content ${commitment.sha256} is kept off-chain, and there is no content store to fetch it from`)
+    const content = await store.get(commitment.sha256)
+    if (Utils.toHex(Hash.sha256(content)) !== commitment.sha256) {
+        throw new Error(`Content fetched for ${commitment.sha256} does not match its hash`)
+    }
+    return Utils.toHex(content)
+}
+
+/**
+ * Resolves the descriptions and bid plans of a contract, surfacing what they stand for
+ * in its record along with any WorkSpecs they hold.
+ */
+export const resolveEscrowContent = async (escrow: EscrowTX, store?: ContentStore): Promise<EscrowTX> => {
+    const content: ResolvedContent = {
+        workDescription: await resolveContent(escrow.record.workDescription, store),
+        workCompletionDescription: await resolveContent(escrow.record.workCompletionDescription, store),
+        bidPlans: await Promise.all(escrow.record.bids.map(async x => await resolveContent(x.plans, store))),
+        acceptedBidPlans: await resolveContent(escrow.record.acceptedBid.plans, store)
+    }
+    return {
+        ...escrow,
+        record: {
+            ...escrow.record,
+            content,
+            ...workSpecsFor(content.workDescription, content.workCompletionDescription)
+        }
+    }
+}
+
+/**
+ * Resolves the content of contracts being listed. Contracts whose content cannot be
+ * fetched or fails its check are still listed, without it.
+ */
+export const resolveListedContent = async (escrows: EscrowTX[], store?: ContentStore): Promise<EscrowTX[]> => {
+    return await Promise.all(escrows.map(async x => await resolveEscrowContent(x, store).catch(e => {
+        console.warn('Failed to resolve contract content:', e instanceof Error ? e.message : String(e))
+        return x
+    })))
+}
+
+const milestoneProgressFor = (escrow: EscrowContract): MilestoneProgress[] => {
+    const released = Number(escrow.milestonesReleased)
+    const deadlines = Array.from(escrow.milestoneDeadlines.values())
+    const statusOf = (i: number): MilestoneProgress['status'] => {
+        if (i < released) return 'released'
+        if (i > released) return 'pending'
+        return escrow.status === EscrowContract.STATUS_WORK_SUBMITTED ? 'submitted' : 'in-progress'
+    }
+    return Array.from(escrow.milestoneAmounts.values()).slice(0, Number(escrow.milestoneCount)).map((amount, i) => ({
+        amount: Number(amount),
+        deadline: Number(deadlines[i]),
+        status: statusOf(i)
+    }))
+}
+
+/**
+ * The milestone the furnisher is working on, or undefined when the contract has no
+ * milestones or all of them have been released.
+ */
+export const currentMilestoneFor = (record: EscrowRecord): MilestoneProgress | undefined => {
+    return record.milestones[record.milestonesReleased]
+}
+
+/**
+ * The names of the contract's public methods, in the order sCrypt numbers them. That is
+ * the order they are declared in, which the class keeps, so no compiled artifact is needed.
+ */
+export const escrowPublicMethods = (): EscrowPublicMethod[] => {
+    return Object.getOwnPropertyNames(EscrowContract.prototype).filter((x): x is EscrowPublicMethod => x.endsWith('OnChain'))
+}
+
+/**
+ * The contract method a spending transaction called, read from its unlocking script.
+ * Contracts with several public methods push the index of the one being called last.
+ * Names drop their OnChain suffix, to match the names callContractMethod takes.
+ */
+export const spendingMethodFor = (unlockingScript: Script, methods: EscrowPublicMethod[] = escrowPublicMethods()): string | undefined => {
+    const last = unlockingScript.chunks[unlockingScript.chunks.length - 1]
+    if (last === undefined) return undefined
+    let index: number
+    if (last.data !== undefined) index = BigNumber.fromScriptNum(last.data).toNumber()
+    else if (last.op === OP.OP_0) index = 0
+    else if (last.op >= OP.OP_1 && last.op <= OP.OP_16) index = last.op - OP.OP_1 + 1
+    else return undefined
+    return methods[index]?.replace(/OnChain$/, '')
+}
+
+/**
+ * Every version of a contract, oldest first, from a lifecycle lookup. Each version names
+ * the transaction that spent it and the method it called, except the latest one while
+ * it is still unspent.
+ */
+export const lifecycleFromAnswer = (answer: LookupAnswer): EscrowVersionRecord[] => {
+    if (answer.type !== 'output-list') throw new Error('Answer must be output-list')
+    return answer.outputs.map(o => {
+        const tx = Transaction.fromBEEF(o.beef)
+        const escrow = EscrowContract.fromLockingScript(tx.outputs[o.outputIndex].lockingScript.toHex()) as EscrowContract
+        const spend: { spendingTxid?: string, spendingMethod?: string } = o.context !== undefined ? JSON.parse(Utils.toUTF8(o.context)) : {}
+        return { ...recordFromContract(tx.id('hex'), o.outputIndex, escrow), ...spend }
+    })
+}
+
 export const recordsFromAnswer = (answer: LookupAnswer): Array<EscrowTX> => {
     if (answer.type !== 'output-list') throw new Error('Answer must be output-list')
     const results: Array<EscrowTX> = []
@@ -93,13 +371,584 @@ export const recordsFromAnswer = (answer: LookupAnswer): Array<EscrowTX> => {
     return results
 }
 
-export const contractFromGlobalConfigAndParams = (config: GlobalConfig, seekerKey: string, workDescription: string, workCompletionDeadline: number): EscrowContract => {
+const escrowStatuses: Array<EscrowRecord['status']> = [
+    'initial', 'bid-accepted', 'work-started', 'work-submitted', 'resolved', 'disputed-by-seeker', 'disputed-by-furnisher',
+    'provisionally-resolved', 'appealed-by-seeker', 'appealed-by-furnisher', 'revealing-bids', 'bids-revealed'
+]
+
+/**
+ * Statuses in which a contract is still looking for a furnisher
+ */
+export const OPEN_STATUSES: Array<EscrowRecord['status']> = ['initial', 'revealing-bids', 'bids-revealed']
+
+/**
+ * Statuses in which a contract is waiting on a ruling
+ */
+export const DISPUTED_STATUSES: Array<EscrowRecord['status']> = ['disputed-by-seeker', 'disputed-by-furnisher']
+
+const queryFields = ['status', 'contractType', 'bounty', 'bidAmount', 'deadline', 'seekerKey', 'furnisherKey', 'platformKey', 'bondingMode', 'sort', 'cursor', 'limit']
+
+const isObject = (x: unknown): x is Record<string, unknown> => typeof x === 'object' && x !== null && !Array.isArray(x)
+
+const parseRange = (name: string, range: unknown): NumberRange => {
+    if (!isObject(range) || Object.keys(range).some(key => key !== 'min' && key !== 'max')) {
+        throw new Error(`Invalid query: ${name} must be an object with optional min and max`)
+    }
+    for (const bound of [range.min, range.max]) {
+        if (bound !== undefined && (typeof bound !== 'number' || !Number.isFinite(bound))) {
+            throw new Error(`Invalid query: ${name} bounds must be finite numbers`)
+        }
+    }
+    if (range.min !== undefined && range.max !== undefined && (range.min as number) > (range.max as number)) {
+        throw new Error(`Invalid query: ${name} min must not exceed max`)
+    }
+    return { min: range.min as number | undefined, max: range.max as number | undefined }
+}
+
+const parseOneOf = <T extends string>(name: string, value: unknown, allowed: readonly T[]): T => {
+    if (!allowed.includes(value as T)) {
+        throw new Error(`Invalid query: ${name} must be one of ${allowed.join(', ')}`)
+    }
+    return value as T
+}
+
+/**
+ * Validates a structured escrow query received by the lookup service, rejecting any
+ * field it does not know rather than silently ignoring it.
+ */
+export const parseEscrowQuery = (query: unknown): EscrowQuery => {
+    if (!isObject(query)) throw new Error('Invalid query: must be an object')
+    const unknownField = Object.keys(query).find(key => !queryFields.includes(key))
+    if (unknownField !== undefined) throw new Error(`Invalid query: unknown field ${unknownField}`)
+
+    const parsed: EscrowQuery = {}
+    if (query.status !== undefined) {
+        if (!Array.isArray(query.status) || query.status.length === 0) {
+            throw new Error('Invalid query: status must be a non-empty array')
+        }
+        parsed.status = query.status.map(x => parseOneOf('status', x, escrowStatuses))
+    }
+    if (query.contractType !== undefined) parsed.contractType = parseOneOf('contractType', query.contractType, ['bid', 'bounty'] as const)
+    if (query.bondingMode !== undefined) parsed.bondingMode = parseOneOf('bondingMode', query.bondingMode, ['forbidden', 'optional', 'required'] as const)
+    for (const name of ['bounty', 'bidAmount', 'deadline'] as const) {
+        if (query[name] !== undefined) parsed[name] = parseRange(name, query[name])
+    }
+    for (const name of ['seekerKey', 'furnisherKey', 'platformKey'] as const) {
+        const key = query[name]
+        if (key === undefined) continue
+        if (typeof key !== 'string' || !/^(02|03)[0-9a-fA-F]{64}$/.test(key)) {
+            throw new Error(`Invalid query: ${name} must be a compressed public key in hex`)
+        }
+        parsed[name] = key
+    }
+    if (query.sort !== undefined) {
+        if (!isObject(query.sort)) throw new Error('Invalid query: sort must be an object')
+        parsed.sort = { by: parseOneOf('sort.by', query.sort.by, ['deadline', 'bounty', 'bidAmount'] as const) }
+        if (query.sort.direction !== undefined) parsed.sort.direction = parseOneOf('sort.direction', query.sort.direction, ['asc', 'desc'] as const)
+    }
+    if (query.cursor !== undefined) {
+        const cursor = query.cursor
+        if (!isObject(cursor) || typeof cursor.txid !== 'string' || !/^[0-9a-fA-F]{64}$/.test(cursor.txid) ||
+            !Number.isInteger(cursor.outputIndex) || (cursor.outputIndex as number) < 0) {
+            throw new Error('Invalid query: cursor must be the txid and outputIndex of a previous result')
+        }
+        parsed.cursor = { txid: cursor.txid, outputIndex: cursor.outputIndex as number }
+    }
+    if (query.limit !== undefined) {
+        if (!Number.isInteger(query.limit) || (query.limit as number) < 1 || (query.limit as number) > 1000) {
+            throw new Error('Invalid query: limit must be an integer from 1 to 1000')
+        }
+        parsed.limit = query.limit as number
+    }
+    return parsed
+}
+
+/**
+ * The PushDrop field carrying an off-chain bid, with the furnisher's signature for the
+ * contract as a DER hex string. The wallet appends its own signature over the field as a
+ * second field when the bid output is locked.
+ */
+export const offChainBidPayload = (escrow: EscrowTX, bid: Bid, signature: string, allowListProof?: AllowListProof): number[] => {
+    return Utils.toArray(JSON.stringify({
+        escrowTxid: escrow.record.txid,
+        escrowOutputIndex: escrow.record.outputIndex,
+        bid,
+        signature,
+        allowListProof
+    }), 'utf8')
+}
+
+/**
+ * What a furnisher signs to make an off-chain bid. It names the contract output the bid
+ * is made against, which no other contract can share, along with what stays the same
+ * across the contract's versions, so the bid still checks out once the contract moves on.
+ */
+export const offChainBidMessage = (record: EscrowRecord, escrowTxid: string, escrowOutputIndex: number, bid: Bid): number[] => {
+    return Utils.toArray(
+        toByteString(escrowTxid) +
+        int2ByteString(BigInt(escrowOutputIndex), 4n) +
+        toByteString(record.seekerKey) +
+        toByteString(record.platformKey) +
+        sha256(toByteString(record.workDescription)) +
+        toByteString(bid.furnisherKey) +
+        int2ByteString(BigInt(bid.bidAmount), 8n) +
+        int2ByteString(BigInt(bid.bond), 8n) +
+        int2ByteString(BigInt(bid.timeOfBid), 8n) +
+        int2ByteString(BigInt(bid.timeRequired), 8n) +
+        int2ByteString(BigInt(bid.validUntil ?? 0), 8n) +
+        toByteString(bid.plans),
+        'hex'
+    )
+}
+
+/**
+ * Whether an off-chain bid carries its furnisher's signature for the given contract.
+ */
+export const offChainBidSigned = (record: EscrowRecord, bid: OffChainBidRecord): boolean => {
+    try {
+        return PublicKey.fromString(bid.bid.furnisherKey).verify(
+            offChainBidMessage(record, bid.escrowTxid, bid.escrowOutputIndex, bid.bid),
+            Signature.fromDER(bid.signature, 'hex')
+        )
+    } catch (e) {
+        return false
+    }
+}
+
+/**
+ * Checks a furnisher's authorization to accept their off-chain bid before it is used,
+ * since the contract would only reject it once the acceptance is broadcast.
+ */
+export const verifyBidAcceptanceAuthorization = (
+    escrow: EscrowTX,
+    acceptedBy: BidAcceptanceAuthorization['acceptedBy'],
+    authorization?: BidAcceptanceAuthorization
+): BidAcceptanceAuthorization => {
+    if (authorization === undefined) {
+        throw new Error('The furnisher must authorize acceptance of an off-chain bid')
+    }
+    if (authorization.txid !== escrow.record.txid || authorization.outputIndex !== escrow.record.outputIndex) {
+        throw new Error('Bid acceptance authorization was issued for a different contract output')
+    }
+    if (authorization.acceptedBy !== acceptedBy) {
+        throw new Error(`Bid acceptance authorization was issued for the ${authorization.acceptedBy}`)
+    }
+    return authorization
+}
+
+/**
+ * Decodes an off-chain bid output, throwing unless it is locked to the bidding furnisher
+ * and carries their signature over the bid.
+ */
+export const offChainBidFromLockingScript = (txid: string, outputIndex: number, lockingScript: LockingScript): OffChainBidRecord => {
+    const { lockingPublicKey, fields } = PushDrop.decode(lockingScript)
+    if (fields.length !== 2) throw new Error('Off-chain bids have exactly one field and a signature')
+    const { escrowTxid, escrowOutputIndex, bid, signature, allowListProof } = JSON.parse(Utils.toUTF8(fields[0]))
+    if (
+        typeof escrowTxid !== 'string' || typeof escrowOutputIndex !== 'number' || typeof signature !== 'string' ||
+        typeof bid?.furnisherKey !== 'string' || typeof bid.plans !== 'string' ||
+        typeof bid.bidAmount !== 'number' || typeof bid.bond !== 'number' ||
+        typeof bid.timeOfBid !== 'number' || typeof bid.timeRequired !== 'number' ||
+        (bid.validUntil !== undefined && typeof bid.validUntil !== 'number') ||
+        (allowListProof !== undefined && (!Array.isArray(allowListProof.siblings) || typeof allowListProof.index !== 'number'))
+    ) {
+        throw new Error('Malformed off-chain bid')
+    }
+    if (bid.furnisherKey !== lockingPublicKey.toString()) {
+        throw new Error('Off-chain bid must be locked to the furnisher making it')
+    }
+    if (!lockingPublicKey.verify(fields[0], Signature.fromDER(fields[1]))) {
+        throw new Error('Off-chain bid signature is invalid')
+    }
+    return {
+        txid,
+        outputIndex,
+        escrowTxid,
+        escrowOutputIndex,
+        bid: {
+            furnisherKey: bid.furnisherKey,
+            plans: bid.plans,
+            bidAmount: bid.bidAmount,
+            bond: bid.bond,
+            timeOfBid: bid.timeOfBid,
+            timeRequired: bid.timeRequired,
+            validUntil: bid.validUntil
+        },
+        signature,
+        allowListProof
+    }
+}
+
+export const bidsFromAnswer = (answer: LookupAnswer): OffChainBidTX[] => {
+    if (answer.type !== 'output-list') throw new Error('Answer must be output-list')
+    const results: OffChainBidTX[] = []
+    for (const o of answer.outputs) {
+        try {
+            const tx = Transaction.fromBEEF(o.beef)
+            const output = tx.outputs[o.outputIndex]
+            results.push({
+                record: offChainBidFromLockingScript(tx.id('hex'), o.outputIndex, output.lockingScript),
+                script: output.lockingScript.toHex(),
+                satoshis: output.satoshis ?? 0,
+                beef: o.beef
+            })
+        } catch (e) {}
+    }
+    return results
+}
+
+export const contractBidFromRecord = (bid: Bid): ContractBid => ({
+    furnisherKey: PubKey(toByteString(bid.furnisherKey)),
+    plans: toByteString(bid.plans),
+    bidAmount: BigInt(bid.bidAmount),
+    bond: BigInt(bid.bond),
+    timeOfBid: BigInt(bid.timeOfBid),
+    timeRequired: BigInt(bid.timeRequired),
+    validUntil: BigInt(bid.validUntil ?? 0)
+})
+
+/**
+ * Whether a bid can no longer be accepted at the given lock time.
+ */
+export const bidExpired = (bid: Bid, lockTime: number): boolean => {
+    return bid.validUntil !== undefined && bid.validUntil !== 0 && lockTime > bid.validUntil
+}
+
+/**
+ * Flags the bids in a contract's slots that can no longer be accepted at the given lock
+ * time. Expired bids keep their slots, since a slot's index is how its bid is accepted.
+ */
+export const flagExpiredBids = (escrow: EscrowTX, lockTime: number): EscrowTX => ({
+    ...escrow,
+    record: {
+        ...escrow.record,
+        bids: escrow.record.bids.map(x => ({ ...x, expired: bidExpired(x, lockTime) }))
+    }
+})
+
+/**
+ * The PushDrop field carrying a backer's contribution record. As with off-chain bids,
+ * the wallet appends the backer's signature over it as a second field.
+ */
+export const contributionPayload = (escrow: EscrowTX, backerKey: string, amount: number): number[] => {
+    return Utils.toArray(JSON.stringify({
+        escrowTxid: escrow.record.txid,
+        escrowOutputIndex: escrow.record.outputIndex,
+        backerKey,
+        amount
+    }), 'utf8')
+}
+
+/**
+ * Decodes a contribution output, throwing unless it is locked to the backer and carries
+ * their signature over the contribution.
+ */
+export const contributionFromLockingScript = (txid: string, outputIndex: number, lockingScript: LockingScript): ContributionRecord => {
+    const { lockingPublicKey, fields } = PushDrop.decode(lockingScript)
+    if (fields.length !== 2) throw new Error('Contributions have exactly one field and a signature')
+    const { escrowTxid, escrowOutputIndex, backerKey, amount } = JSON.parse(Utils.toUTF8(fields[0]))
+    if (
+        typeof escrowTxid !== 'string' || typeof escrowOutputIndex !== 'number' ||
+        typeof backerKey !== 'string' || typeof amount !== 'number' || amount <= 0
+    ) {
+        throw new Error('Malformed contribution')
+    }
+    if (backerKey !== lockingPublicKey.toString()) {
+        throw new Error('Contribution must be locked to the backer making it')
+    }
+    if (!lockingPublicKey.verify(fields[0], Signature.fromDER(fields[1]))) {
+        throw new Error('Contribution signature is invalid')
+    }
+    return { txid, outputIndex, escrowTxid, escrowOutputIndex, backerKey, amount }
+}
+
+export const contributionsFromAnswer = (answer: LookupAnswer): ContributionRecord[] => {
+    if (answer.type !== 'output-list') throw new Error('Answer must be output-list')
+    const results: ContributionRecord[] = []
+    for (const o of answer.outputs) {
+        try {
+            const tx = Transaction.fromBEEF(o.beef)
+            results.push(contributionFromLockingScript(tx.id('hex'), o.outputIndex, tx.outputs[o.outputIndex].lockingScript))
+        } catch (e) {}
+    }
+    return results
+}
+
+/**
+ * The SHA-256 commitment to an evidence bundle, as anchored in contract state.
+ */
+export const evidenceHashFor = (evidence: number[]): string => {
+    return Utils.toHex(Hash.sha256(evidence))
+}
+
+/**
+ * Checks an off-chain evidence bundle against the hash a party anchored in the contract.
+ * A party that never submitted evidence has nothing to verify against.
+ */
+export const verifyEvidence = (record: EscrowRecord, party: 'seeker' | 'furnisher', evidence: number[]): boolean => {
+    const anchored = party === 'seeker' ? record.seekerEvidenceHash : record.furnisherEvidenceHash
+    return anchored !== '' && anchored === evidenceHashFor(evidence)
+}
+
+/**
+ * What the sender of a dispute message signs. It names the inbox the message is for, so
+ * it cannot be replayed to another platform.
+ */
+export const disputeMessageBytes = (to: string, message: Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged' | 'signature'>): number[] => {
+    return Utils.toArray(JSON.stringify([
+        to,
+        message.txid,
+        message.outputIndex,
+        message.role,
+        message.senderKey,
+        Utils.toHex(message.evidence ?? [])
+    ]), 'utf8')
+}
+
+/**
+ * Signs a dispute message for the inbox it is sent to, with the sender's contract key.
+ */
+export const signDisputeMessage = async (
+    wallet: WalletInterface,
+    config: GlobalConfig,
+    to: string,
+    message: Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged' | 'signature'>
+): Promise<Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged'>> => {
+    const { signature } = await wallet.createSignature({
+        protocolID: config.keyDerivationProtocol,
+        keyID: '1',
+        counterparty: 'self',
+        data: disputeMessageBytes(to, message)
+    })
+    return { ...message, signature: Utils.toHex(signature) }
+}
+
+/**
+ * Whether a dispute message was signed by the key it claims to be sent from, for the
+ * inbox it was delivered to.
+ */
+export const disputeMessageSigned = (to: string, message: Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged'>): boolean => {
+    try {
+        return PublicKey.fromString(message.senderKey).verify(
+            disputeMessageBytes(to, message),
+            Signature.fromDER(message.signature, 'hex')
+        )
+    } catch (e) {
+        return false
+    }
+}
+
+export const evidenceCommitmentsFor = (record: EscrowRecord): EvidenceCommitment[] => {
+    const commitments: EvidenceCommitment[] = []
+    if (record.seekerEvidenceHash !== '') commitments.push({ party: 'seeker', evidenceHash: record.seekerEvidenceHash })
+    if (record.furnisherEvidenceHash !== '') commitments.push({ party: 'furnisher', evidenceHash: record.furnisherEvidenceHash })
+    return commitments
+}
+
+/**
+ * The last moment either party may still submit evidence on a disputed contract.
+ */
+export const evidenceDeadlineFor = (record: EscrowRecord): number => {
+    return record.disputeTime + record.evidencePeriod
+}
+
+/**
+ * The last moment either party can appeal a provisional ruling. After it passes, anyone
+ * can finalize the ruling.
+ */
+export const appealDeadlineFor = (record: EscrowRecord): number => {
+    return record.rulingTime + record.appealPeriod
+}
+
+const panelKeysFor = (config: GlobalConfig): FixedArray<PubKey, 5> => {
+    const keys = config.panel?.keys ?? []
+    if (config.panel !== undefined) {
+        if (keys.length < 1 || keys.length > 5) throw new Error('A panel must have between 1 and 5 arbiters')
+        if (new Set(keys).size !== keys.length) throw new Error('Panel arbiters must be distinct')
+        if (config.panel.threshold < 1 || config.panel.threshold > keys.length) {
+            throw new Error('Panel threshold must be between 1 and the number of arbiters')
+        }
+    }
+    // Unused slots are never checked, so they just repeat the platform key
+    return fill(PubKey(toByteString(config.platformKey)), 5).map((x, i) => (
+        i < keys.length ? PubKey(toByteString(keys[i])) : x
+    )) as FixedArray<PubKey, 5>
+}
+
+const milestoneParamsFor = (milestones: Milestone[], workCompletionDeadline: number): [FixedArray<bigint, 5>, FixedArray<bigint, 5>, bigint] => {
+    if (milestones.length > 5) throw new Error('A contract can have at most 5 milestones')
+    milestones.forEach((m, i) => {
+        if (m.amount <= 0) throw new Error('Every milestone must release a positive amount')
+        if (i > 0 && m.deadline < milestones[i - 1].deadline) throw new Error('Milestone deadlines must be in order')
+        if (m.deadline > workCompletionDeadline) throw new Error('Milestone deadlines cannot be after the work completion deadline')
+    })
+    const pad = (values: number[]): FixedArray<bigint, 5> => fill(0n, 5).map((x, i) => (
+        i < values.length ? BigInt(values[i]) : x
+    )) as FixedArray<bigint, 5>
+    return [pad(milestones.map(x => x.amount)), pad(milestones.map(x => x.deadline)), BigInt(milestones.length)]
+}
+
+const allowListLeaf = (furnisherKey: string): number[] => Hash.sha256(Utils.toArray(furnisherKey, 'hex'))
+
+// Each level pairs up nodes left to right, carrying an unpaired last node up unchanged
+const allowListLevels = (furnisherKeys: string[]): number[][][] => {
+    if (furnisherKeys.length === 0 || furnisherKeys.length > 256) {
+        throw new Error('A Merkle allow-list must have between 1 and 256 furnishers')
+    }
+    const levels = [furnisherKeys.map(allowListLeaf)]
+    while (levels[levels.length - 1].length > 1) {
+        const level = levels[levels.length - 1]
+        const next: number[][] = []
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? Hash.sha256([...level[i], ...level[i + 1]]) : level[i])
+        }
+        levels.push(next)
+    }
+    return levels
+}
+
+/**
+ * The Merkle root a contract commits to for an allow-list of furnisher keys.
+ */
+export const allowListRootFor = (furnisherKeys: string[]): string => {
+    const levels = allowListLevels(furnisherKeys)
+    return Utils.toHex(levels[levels.length - 1][0])
+}
+
+/**
+ * The proof a furnisher needs to bid on a contract committed to this allow-list. Seekers
+ * hand these out to the furnishers they invite.
+ */
+export const allowListProofFor = (furnisherKeys: string[], furnisherKey: string): AllowListProof => {
+    const index = furnisherKeys.indexOf(furnisherKey)
+    if (index === -1) throw new Error('Furnisher is not on the allow-list')
+    const siblings = allowListLevels(furnisherKeys).slice(0, -1).map((level, depth) => {
+        const position = index >> depth
+        const sibling = level[position % 2 === 1 ? position - 1 : position + 1]
+        return sibling === undefined ? '' : Utils.toHex(sibling)
+    })
+    return { siblings, index }
+}
+
+/**
+ * Checks a furnisher's proof against an allow-list root, the same way the contract does.
+ */
+export const verifyAllowListProof = (root: string, furnisherKey: string, proof: AllowListProof): boolean => {
+    let node = allowListLeaf(furnisherKey)
+    let position = proof.index
+    for (const sibling of proof.siblings) {
+        if (sibling !== '') {
+            node = position % 2 === 1
+                ? Hash.sha256([...Utils.toArray(sibling, 'hex'), ...node])
+                : Hash.sha256([...node, ...Utils.toArray(sibling, 'hex')])
+        }
+        position = Math.floor(position / 2)
+    }
+    return Utils.toHex(node) === root
+}
+
+/**
+ * Whether a furnisher may bid on a contract, given their proof for a Merkle allow-list.
+ */
+export const furnisherMayBid = (record: EscrowRecord, furnisherKey: string, proof?: AllowListProof): boolean => {
+    if (record.allowedFurnishers.length === 0 && record.allowListRoot === '') return true
+    if (record.allowedFurnishers.includes(furnisherKey)) return true
+    return record.allowListRoot !== '' && proof !== undefined && verifyAllowListProof(record.allowListRoot, furnisherKey, proof)
+}
+
+/**
+ * The allow-list proof arguments for a contract call. Contracts without a Merkle
+ * allow-list ignore them.
+ */
+export const allowListProofParams = (proof?: AllowListProof): [FixedArray<ByteString, 8>, bigint] => {
+    if (proof !== undefined && proof.siblings.length > 8) throw new Error('Allow-list proof is too deep')
+    const siblings = fill(toByteString(''), 8).map((x, i) => (
+        proof?.siblings[i] !== undefined ? toByteString(proof.siblings[i]) : x
+    )) as FixedArray<ByteString, 8>
+    return [siblings, BigInt(proof?.index ?? 0)]
+}
+
+/**
+ * The commitment a furnisher makes to a sealed bid, matching what the contract checks
+ * when the bid is revealed. It covers how long the bid stays valid, but not the time of
+ * the bid, since the contract records that when the commitment is made.
+ */
+export const bidCommitmentFor = (bid: Bid, salt: string): string => {
+    return sha256(
+        int2ByteString(BigInt(bid.bidAmount), 8n) +
+        int2ByteString(BigInt(bid.bond), 8n) +
+        int2ByteString(BigInt(bid.timeRequired), 8n) +
+        int2ByteString(BigInt(bid.validUntil ?? 0), 8n) +
+        toByteString(bid.plans) +
+        toByteString(salt)
+    )
+}
+
+/**
+ * Whether bids on a contract can be accepted or rejected right now. Sealed auctions only
+ * open for that once bidding has closed and the bids have been revealed.
+ */
+export const acceptingBids = (record: EscrowRecord): boolean => {
+    return record.status === (record.sealedBidding ? 'bids-revealed' : 'initial')
+}
+
+/**
+ * Whether a bounty can still be increased, given how far the work has progressed past the
+ * contract's cutoff point for increases.
+ */
+export const bountyIncreaseOpen = (record: EscrowRecord): boolean => {
+    const openStatuses: Record<EscrowRecord['bountyIncreaseCutoffPoint'], Array<EscrowRecord['status']>> = {
+        'bid-acceptance': ['initial'],
+        'start-of-work': ['initial', 'bid-accepted'],
+        'submission-of-work': ['initial', 'bid-accepted', 'work-started'],
+        'acceptance-of-work': ['initial', 'bid-accepted', 'work-started', 'work-submitted']
+    }
+    return openStatuses[record.bountyIncreaseCutoffPoint].includes(record.status)
+}
+
+const sealedBiddingParamsFor = (workCompletionDeadline: number, sealedBidding?: SealedBidding): [bigint, bigint, bigint] => {
+    if (sealedBidding === undefined) return [0n, 0n, 0n]
+    if (sealedBidding.commitDeadline >= sealedBidding.revealDeadline) {
+        throw new Error('Sealed bids must be committed before they are revealed')
+    }
+    if (sealedBidding.revealDeadline >= workCompletionDeadline) {
+        throw new Error('Sealed bids must be revealed before the work completion deadline')
+    }
+    return [1n, BigInt(sealedBidding.commitDeadline), BigInt(sealedBidding.revealDeadline)]
+}
+
+const allowListParamsFor = (seekerKey: string, allowList?: AllowList): [FixedArray<PubKey, 4>, bigint, ByteString] => {
+    const inline = allowList?.commitment === 'inline' ? allowList.furnisherKeys : []
+    if (inline.length > 4) throw new Error('An inline allow-list can have at most 4 furnishers')
+    const allowedFurnishers = fill(PubKey(toByteString(seekerKey)), 4).map((x, i) => (
+        i < inline.length ? PubKey(toByteString(inline[i])) : x
+    )) as FixedArray<PubKey, 4>
+    const root = allowList?.commitment === 'merkle' ? allowListRootFor(allowList.furnisherKeys) : ''
+    return [allowedFurnishers, BigInt(inline.length), toByteString(root)]
+}
+
+export const contractFromGlobalConfigAndParams = (
+    config: GlobalConfig,
+    seekerKey: string,
+    workDescription: string | WorkSpec | ContentCommitment,
+    workCompletionDeadline: number,
+    milestones: Milestone[] = [],
+    allowList?: AllowList,
+    sealedBidding?: SealedBidding
+): EscrowContract => {
+    if (sealedBidding !== undefined && config.contractType !== 'bid') {
+        throw new Error('Only bid contracts can take sealed bids')
+    }
+    if (milestones.length > 0 && config.contractType === 'bounty' && !config.bountySolversNeedApproval) {
+        // A race is settled by the first submission, so there is never a milestone to release
+        throw new Error('Bounties open to any solver cannot be paid in milestones')
+    }
     return new EscrowContract(
         PubKey(toByteString(seekerKey)),
         PubKey(toByteString(config.platformKey)),
         BigInt(config.escrowServiceFeeBasisPoints),
         config.platformAuthorizationRequired ? 1n : 0n,
-        toByteString(workDescription, true),
+        encodeWorkDescription(workDescription),
         BigInt(workCompletionDeadline),
         BigInt(config.minAllowableBid),
         config.bountySolversNeedApproval ? 1n : 0n,
@@ -133,22 +982,120 @@ export const contractFromGlobalConfigAndParams = (config: GlobalConfig, seekerKe
             ? EscrowContract.TYPE_BID
             : EscrowContract.TYPE_BOUNTY,
         config.contractSurvivesAdverseFurnisherDisputeResolution ? 1n : 0n,
+        config.abandonedWorkRefundAllowed ? 1n : 0n,
+        BigInt(config.abandonedWorkGracePeriod),
+        config.approvalTimeoutReleasesPayment ? 1n : 0n,
+        BigInt(config.evidencePeriod),
+        panelKeysFor(config),
+        BigInt(config.panel?.keys.length ?? 0),
+        BigInt(config.panel?.threshold ?? 0),
+        PubKey(toByteString(config.appeals?.arbiterKey ?? config.platformKey)),
+        BigInt(config.appeals?.period ?? 0),
+        ...milestoneParamsFor(milestones, workCompletionDeadline),
+        ...allowListParamsFor(seekerKey, allowList),
+        ...sealedBiddingParamsFor(workCompletionDeadline, sealedBidding),
         fill({
             furnisherKey: PubKey(toByteString(seekerKey)),
             plans: '',
             timeOfBid: 0n,
             bond: 0n,
             bidAmount: 0n,
-            timeRequired: 0n
+            timeRequired: 0n,
+            validUntil: 0n
         }, 4)
     )
 }
 
+/**
+ * Calls a contract method by name. Public methods carry their OnChain suffix, and their
+ * off-chain mirrors go without it.
+ */
+const invokeContractMethod = (contract: SmartContract, name: string, params: ContractCallValue[]): void => {
+    const method: unknown = Reflect.get(contract, name)
+    if (typeof method !== 'function') throw new Error(`The contract has no ${name} method`)
+    method.apply(contract, params)
+}
+
+export const nextLockingScriptForMethod = (
+    escrow: EscrowTX,
+    methodName: EscrowMethodName,
+    params: ContractCallValue[],
+    sequenceNumber: number = 0xfffffffe,
+    lockTime: number = 0
+): string => {
+    // Methods that leave the state as it is have no off-chain mirror
+    if (typeof Reflect.get(escrow.contract, methodName) !== 'function') {
+        return escrow.script
+    }
+    const clone = EscrowContract.fromLockingScript(escrow.script)
+
+    // Off-chain state transitions may read the spending context (such as the lock time),
+    // so give the clone one that matches the transaction about to be built
+    const preimage = TransactionSignature.format({
+        sourceTXID: escrow.record.txid,
+        sourceOutputIndex: escrow.record.outputIndex,
+        sourceSatoshis: escrow.satoshis,
+        transactionVersion: 1,
+        otherInputs: [],
+        inputIndex: 0,
+        inputSequence: sequenceNumber,
+        outputs: [],
+        subscript: LockingScript.fromHex(escrow.script),
+        lockTime,
+        scope: TransactionSignature.SIGHASH_ALL | TransactionSignature.SIGHASH_FORKID
+    })
+    invokeContractMethod(clone, 'setCtx', [toByteString(Utils.toHex(preimage))])
+    invokeContractMethod(clone, methodName, params)
+    return clone.lockingScript.toHex()
+}
+
+/**
+ * Signs a contract method call ahead of time, without building the spending transaction.
+ *
+ * Only methods using SigHash.ANYONECANPAY_SINGLE can be signed this way, because their
+ * preimage commits to nothing but the contract input and the next contract output. The
+ * party that later builds the transaction must use the same sequence number, lock time
+ * and transaction version, or the signature will not verify.
+ */
+export const presignContractMethod = async (
+    escrow: EscrowTX,
+    methodName: EscrowMethodName,
+    params: ContractCallParam[],
+    signatory: ContractCallSignatory,
+    nextOutputAmount: number,
+    sequenceNumber: number = 0xfffffffe,
+    lockTime: number = 0,
+    transactionVersion: number = 1
+): Promise<Sig> => {
+    const scope = escrow.contract.sigTypeOfMethod(`${methodName}OnChain`)
+    if (scope !== (TransactionSignature.SIGHASH_ANYONECANPAY | TransactionSignature.SIGHASH_SINGLE | TransactionSignature.SIGHASH_FORKID)) {
+        throw new Error(`${methodName} cannot be signed ahead of time`)
+    }
+    const blankedParams = params.map(blankSignature)
+    const preimage = TransactionSignature.format({
+        sourceTXID: escrow.record.txid,
+        sourceOutputIndex: escrow.record.outputIndex,
+        sourceSatoshis: escrow.satoshis,
+        transactionVersion,
+        otherInputs: [],
+        inputIndex: 0,
+        inputSequence: sequenceNumber,
+        outputs: [{
+            satoshis: nextOutputAmount,
+            lockingScript: LockingScript.fromHex(nextLockingScriptForMethod(escrow, methodName, blankedParams, sequenceNumber, lockTime))
+        }],
+        subscript: LockingScript.fromHex(escrow.script),
+        lockTime,
+        scope
+    })
+    return await signatory(Hash.sha256(preimage), scope)
+}
+
 export const callContractMethod = async (
     wallet: WalletInterface,
     escrow: EscrowTX,
-    methodName: string,
-    params: Array<any>,
+    methodName: EscrowMethodName,
+    params: ContractCallParam[],
     nextOutputAmount?: number,
     otherOutputs?: Array<CreateActionOutput>,
     sequenceNumber: number = 0xfffffffe,
@@ -156,8 +1103,423 @@ export const callContractMethod = async (
     unlockingScriptLength = 1200000
 ) => {
     // Compute blank signatures for use at first until signatories are called
-    const blankedParams = params.map((x) => typeof x === 'function' || x === 'WONTSIGN' ? blankSig : x)
+    const blankedParams = params.map(blankSignature)
+
+    // Get a signable transaction we can work with
+    const signableTransaction = await createSignableContractCall(
+        wallet,
+        escrow,
+        methodName,
+        blankedParams,
+        nextOutputAmount,
+        otherOutputs,
+        sequenceNumber,
+        lockTime,
+        unlockingScriptLength
+    )
+
+    // The preimage we'll sign depends on the hash type
+    const { preimageHash, scope } = preimageHashForContractCall(escrow, methodName, signableTransaction.tx)
+
+    // Obtain signatures from all signatories
+    const hydratedParams = await Promise.all(params.map(async (p): Promise<ContractCallValue> => {
+        if (p === 'WONTSIGN') return blankSig
+        if (typeof p !== 'function') return p
+        return p(preimageHash, scope)
+    }))
+
+    return await completeContractCall(wallet, escrow, methodName, signableTransaction, hydratedParams, sequenceNumber)
+}
+
+/**
+ * Starts a contract call that needs signatures from more than one wallet.
+ *
+ * The calling wallet signs right away for every signatory function in params. A
+ * `{ signerKey }` entry leaves a signature slot open for another party, who fills it with
+ * signPendingContractCall. The calling wallet also pays the fee up front, into an output
+ * that the transaction spends in full, and signs that input with the given signatory.
+ * Since nothing is left for a wallet to sign or give change for, any party can finalize
+ * the call once every slot is filled.
+ */
+export const createPendingContractCall = async (
+    wallet: WalletInterface,
+    escrow: EscrowTX,
+    methodName: EscrowMethodName,
+    params: PendingContractCallInput[],
+    createdBy: string,
+    signatory: ContractCallSignatory,
+    nextOutputAmount?: number,
+    otherOutputs?: CreateActionOutput[],
+    sequenceNumber: number = 0xfffffffe,
+    lockTime: number = 0,
+    unlockingScriptLength = 1200000
+): Promise<PendingContractCall> => {
+    const blankParam = (x: PendingContractCallInput): ContractCallValue => (
+        Array.isArray(x)
+            ? x.map(blankParam)
+            : isOpenSignature(x)
+                ? blankSig
+                : blankSignature(x)
+    )
+    const blankedParams = params.map(blankParam)
+    const signableTransaction = await createFundedContractCall(
+        wallet,
+        escrow,
+        methodName,
+        blankedParams,
+        createdBy,
+        signatory,
+        nextOutputAmount,
+        otherOutputs,
+        sequenceNumber,
+        lockTime,
+        unlockingScriptLength
+    )
+    const { preimageHash, scope } = preimageHashForContractCall(escrow, methodName, signableTransaction)
+
+    const toPendingParam = async (p: PendingContractCallInput): Promise<PendingContractCallParam> => {
+        if (p === 'WONTSIGN') return { type: 'no-signature' }
+        if (typeof p === 'function') {
+            return { type: 'signature', signerKey: createdBy, signature: (await p(preimageHash, scope)).toString() }
+        }
+        if (isOpenSignature(p)) return { type: 'signature', signerKey: p.signerKey, optional: p.optional ?? false }
+        if (Array.isArray(p)) return { type: 'array', items: await Promise.all(p.map(toPendingParam)) }
+        if (typeof p === 'bigint') return { type: 'bigint', value: p.toString() }
+        if (typeof p === 'string') return { type: 'bytes', value: p }
+        throw new Error(`Unsupported parameter for pending contract call: ${String(p)}`)
+    }
+    const pendingParams = await Promise.all(params.map(toPendingParam))
+
+    return {
+        escrowTxid: escrow.record.txid,
+        escrowOutputIndex: escrow.record.outputIndex,
+        methodName,
+        params: pendingParams,
+        signableTransaction: Utils.toHex(signableTransaction),
+        sequenceNumber,
+        createdBy
+    }
+}
+
+/**
+ * Adds a party's signature to every open slot of a pending contract call that belongs
+ * to signerKey. Returns a new pending call, leaving the original untouched.
+ */
+export const signPendingContractCall = async (
+    escrow: EscrowTX,
+    pending: PendingContractCall,
+    signerKey: string,
+    signatory: ContractCallSignatory
+): Promise<PendingContractCall> => {
+    verifyPendingContractCallTarget(escrow, pending)
+    const isOpenSlot = (p: PendingContractCallParam): p is Extract<PendingContractCallParam, { type: 'signature' }> => (
+        p.type === 'signature' && p.signerKey === signerKey && p.signature === undefined
+    )
+    if (!pendingSignatureSlots(pending.params).some(isOpenSlot)) {
+        throw new Error('No open signature slot for this key in the pending contract call')
+    }
+    const { preimageHash, scope } = preimageHashForContractCall(escrow, pending.methodName, Utils.toArray(pending.signableTransaction, 'hex'))
+    const signature = (await signatory(preimageHash, scope)).toString()
+    const fill = (p: PendingContractCallParam): PendingContractCallParam => (
+        p.type === 'array'
+            ? { ...p, items: p.items.map(fill) }
+            : isOpenSlot(p)
+                ? { ...p, signature }
+                : p
+    )
+    return {
+        ...pending,
+        params: pending.params.map(fill)
+    }
+}
+
+/**
+ * Every signature slot in a pending contract call, including those nested in arrays.
+ */
+export const pendingSignatureSlots = (params: PendingContractCallParam[]): Array<Extract<PendingContractCallParam, { type: 'signature' }>> => {
+    return params.flatMap(p => (
+        p.type === 'array'
+            ? pendingSignatureSlots(p.items)
+            : p.type === 'signature'
+                ? [p]
+                : []
+    ))
+}
+
+/**
+ * Builds the unlocking script for a pending contract call once every signature slot is
+ * filled. The fee input was signed when the call was created, so the returned transaction
+ * is ready to broadcast, whoever finalizes it.
+ */
+export const finalizePendingContractCall = (
+    escrow: EscrowTX,
+    pending: PendingContractCall
+): Transaction => {
+    verifyPendingContractCallTarget(escrow, pending)
+    const hydrate = (p: PendingContractCallParam): ContractCallValue => {
+        if (p.type === 'no-signature') return blankSig
+        if (p.type === 'bigint') return BigInt(p.value)
+        if (p.type === 'bytes') return toByteString(p.value)
+        if (p.type === 'array') return p.items.map(hydrate)
+        if (p.signature === undefined) {
+            if (p.optional) return emptySig
+            throw new Error(`Pending contract call is still missing a signature from ${p.signerKey}`)
+        }
+        return Sig(toByteString(p.signature))
+    }
+    const hydratedParams = pending.params.map(hydrate)
+    const tx = Transaction.fromAtomicBEEF(Utils.toArray(pending.signableTransaction, 'hex'))
+    tx.inputs[0].unlockingScript = UnlockingScript.fromHex(
+        contractUnlockingScript(escrow, pending.methodName, tx, hydratedParams)
+    )
+    return tx
+}
+
+/**
+ * Builds the payout outputs for a mutual dispute settlement, in the order that
+ * resolveDisputeOnChain expects them.
+ */
+export const buildSettlementOutputs = (record: EscrowRecord, amountForSeeker: number, amountForFurnisher: number): CreateActionOutput[] => {
+    if (amountForSeeker > 0 && amountForFurnisher === 0 && record.contractSurvivesAdverseFurnisherDisputeResolution) {
+        throw new Error('Settlements paying only the seeker must keep the contract alive on this contract')
+    }
+    const outputs: CreateActionOutput[] = []
+    if (amountForSeeker > 0) {
+        outputs.push({
+            satoshis: amountForSeeker,
+            lockingScript: p2pkhLockingScriptForKey(record.seekerKey),
+            outputDescription: 'Seeker settlement payout'
+        })
+    }
+    if (amountForFurnisher > 0) {
+        outputs.push({
+            satoshis: amountForFurnisher,
+            lockingScript: p2pkhLockingScriptForKey(record.acceptedBid.furnisherKey),
+            outputDescription: 'Furnisher settlement payout'
+        })
+    }
+    return outputs
+}
 
+/**
+ * Works out the outputs for an arbitrated dispute ruling: the payouts, the platform fee,
+ * and whether the contract survives and reopens for bidding.
+ *
+ * On contracts that allow appeals, a first ruling is only provisional. It keeps the whole
+ * balance in the contract, and these same payouts are made when it is finalized.
+ *
+ * The contract builds the fee output itself on every ruling, right after the payouts, so
+ * it is listed here for the transaction but never passed in as one of the otherOutputs.
+ */
+export const buildDisputeResolution = (
+    escrow: EscrowTX,
+    amountForSeeker: number,
+    amountForFurnisher: number
+): { platformFee: number, feeOutputs: CreateActionOutput[], reopens: boolean, provisional: boolean, nextOutputAmount?: number, outputs: CreateActionOutput[] } => {
+    const { record } = escrow
+    const platformFee = Math.floor(escrow.satoshis * record.escrowServiceFeeBasisPoints / 10000)
+    if (amountForSeeker + amountForFurnisher + platformFee > escrow.satoshis) {
+        throw new Error('Payouts and platform fee exceed the contract balance')
+    }
+    const feeOutputs: CreateActionOutput[] = platformFee > 0
+        ? [{
+            satoshis: platformFee,
+            lockingScript: p2pkhLockingScriptForKey(record.platformKey),
+            outputDescription: 'Platform fee'
+        }]
+        : []
+    if (record.appealPeriod > 0 && (record.status === 'disputed-by-seeker' || record.status === 'disputed-by-furnisher')) {
+        return { platformFee, feeOutputs: [], reopens: false, provisional: true, nextOutputAmount: escrow.satoshis, outputs: [] }
+    }
+
+    // When the furnisher loses on a surviving contract, the seeker's share goes back into
+    // the contract, which reopens for bidding instead of paying out
+    const reopens = record.contractSurvivesAdverseFurnisherDisputeResolution && amountForSeeker > 0 && amountForFurnisher === 0
+    const provisional = false
+    if (!reopens) {
+        return { platformFee, feeOutputs, reopens, provisional, outputs: [...buildSettlementOutputs(record, amountForSeeker, amountForFurnisher), ...feeOutputs] }
+    }
+    if (record.contractType === 'bid') {
+        // Bid contracts are funded again when the next bid is accepted
+        if (amountForSeeker < 2) {
+            throw new Error('Seeker share must exceed the 1 satoshi kept in a reopened bid contract')
+        }
+        return {
+            platformFee,
+            feeOutputs,
+            reopens,
+            provisional,
+            nextOutputAmount: 1,
+            outputs: [{
+                satoshis: amountForSeeker - 1,
+                lockingScript: p2pkhLockingScriptForKey(record.seekerKey),
+                outputDescription: 'Seeker dispute payout'
+            }, ...feeOutputs]
+        }
+    }
+    return { platformFee, feeOutputs, reopens, provisional, nextOutputAmount: amountForSeeker, outputs: feeOutputs }
+}
+
+/**
+ * Reads the agreed amounts out of a pending mutual settlement, after checking that the
+ * transaction really pays them to the seeker and furnisher of this contract.
+ */
+export const pendingSettlementTerms = (escrow: EscrowTX, pending: PendingContractCall): { amountForSeeker: number, amountForFurnisher: number } => {
+    verifyPendingContractCallTarget(escrow, pending)
+    const [platformResolves, amountForSeeker, amountForFurnisher] = pending.params
+    if (
+        pending.methodName !== 'resolveDispute' ||
+        platformResolves?.type !== 'bigint' || platformResolves.value !== '0' ||
+        amountForSeeker?.type !== 'bigint' || amountForFurnisher?.type !== 'bigint'
+    ) {
+        throw new Error('Pending contract call is not a mutual dispute settlement')
+    }
+    const terms = {
+        amountForSeeker: Number(amountForSeeker.value),
+        amountForFurnisher: Number(amountForFurnisher.value)
+    }
+    const expectedOutputs = buildSettlementOutputs(escrow.record, terms.amountForSeeker, terms.amountForFurnisher)
+    const { outputs } = Transaction.fromAtomicBEEF(Utils.toArray(pending.signableTransaction, 'hex'))
+    expectedOutputs.forEach((expected, i) => {
+        if (outputs[i]?.satoshis !== expected.satoshis || outputs[i].lockingScript.toHex() !== expected.lockingScript) {
+            throw new Error('Settlement transaction does not pay the agreed amounts')
+        }
+    })
+    return terms
+}
+
+/**
+ * Reads the amounts out of a pending panel ruling, after checking that the transaction
+ * pays them, and the platform fee, exactly as buildDisputeResolution lays them out.
+ */
+export const pendingRulingTerms = (escrow: EscrowTX, pending: PendingContractCall): { amountForSeeker: number, amountForFurnisher: number } => {
+    verifyPendingContractCallTarget(escrow, pending)
+    const [platformResolves, amountForSeeker, amountForFurnisher] = pending.params
+    if (
+        pending.methodName !== 'resolveDispute' ||
+        platformResolves?.type !== 'bigint' || platformResolves.value !== '1' ||
+        amountForSeeker?.type !== 'bigint' || amountForFurnisher?.type !== 'bigint'
+    ) {
+        throw new Error('Pending contract call is not a panel ruling')
+    }
+    const terms = {
+        amountForSeeker: Number(amountForSeeker.value),
+        amountForFurnisher: Number(amountForFurnisher.value)
+    }
+    const { nextOutputAmount, outputs: expectedOutputs } = buildDisputeResolution(escrow, terms.amountForSeeker, terms.amountForFurnisher)
+    const { outputs } = Transaction.fromAtomicBEEF(Utils.toArray(pending.signableTransaction, 'hex'))
+    const offset = typeof nextOutputAmount === 'number' ? 1 : 0
+    if (offset === 1 && outputs[0]?.satoshis !== nextOutputAmount) {
+        throw new Error('Ruling transaction does not keep the agreed amount in the contract')
+    }
+    expectedOutputs.forEach((expected, i) => {
+        const output = outputs[i + offset]
+        if (output?.satoshis !== expected.satoshis || output.lockingScript.toHex() !== expected.lockingScript) {
+            throw new Error('Ruling transaction does not pay the agreed amounts')
+        }
+    })
+    return terms
+}
+
+/**
+ * The platform fee owed when a contract pays out without a dispute, rounded down the same
+ * way the contract rounds it.
+ */
+export const platformFeeFor = (escrow: EscrowTX): number => {
+    return Number(BigInt(escrow.satoshis) * BigInt(escrow.record.escrowServiceFeeBasisPoints) / 10000n)
+}
+
+/**
+ * Builds the outputs for the seeker approving the current milestone. Earlier milestones
+ * pay the furnisher their amount less the platform's share of it, with the fee after the
+ * payout, and the rest stays in the contract. The last milestone only resolves the
+ * contract, leaving the furnisher to claim what remains.
+ */
+export const buildMilestoneReleaseOutputs = (escrow: EscrowTX): { nextOutputAmount: number, outputs: CreateActionOutput[] } => {
+    const { record } = escrow
+    const milestone = currentMilestoneFor(record)
+    if (milestone === undefined) throw new Error('Contract has no milestone left to release')
+    if (record.milestonesReleased === record.milestones.length - 1) {
+        return { nextOutputAmount: escrow.satoshis, outputs: [] }
+    }
+    if (milestone.amount >= escrow.satoshis) {
+        throw new Error('Milestone amount exceeds the contract balance')
+    }
+    const fee = Number(BigInt(milestone.amount) * BigInt(record.escrowServiceFeeBasisPoints) / 10000n)
+    const outputs: CreateActionOutput[] = [{
+        satoshis: milestone.amount - fee,
+        lockingScript: p2pkhLockingScriptForKey(record.acceptedBid.furnisherKey),
+        outputDescription: 'Milestone payout'
+    }]
+    if (fee > 0) {
+        outputs.push({
+            satoshis: fee,
+            lockingScript: p2pkhLockingScriptForKey(record.platformKey),
+            outputDescription: 'Platform fee'
+        })
+    }
+    return { nextOutputAmount: escrow.satoshis - milestone.amount, outputs }
+}
+
+/**
+ * Builds the outputs for a furnisher claiming payment. Any platform fee comes first, since
+ * the contract checks the output paired with the contract input, and the remainder goes
+ * to the furnisher.
+ */
+export const buildClaimOutputs = (escrow: EscrowTX, furnisherKey: string): CreateActionOutput[] => {
+    const fee = platformFeeFor(escrow)
+    const outputs: CreateActionOutput[] = []
+    if (fee > 0) {
+        outputs.push({
+            satoshis: fee,
+            lockingScript: p2pkhLockingScriptForKey(escrow.record.platformKey),
+            outputDescription: 'Platform fee'
+        })
+    }
+    outputs.push({
+        satoshis: escrow.satoshis - fee,
+        lockingScript: p2pkhLockingScriptForKey(furnisherKey),
+        outputDescription: 'Furnisher payout'
+    })
+    return outputs
+}
+
+/**
+ * Serializes outputs the way they appear in a transaction, for contract parameters such as
+ * otherOutputs that get hashed together with the outputs the contract builds itself.
+ */
+export const serializeOutputs = (outputs: CreateActionOutput[]): string => {
+    const writer = new Utils.Writer()
+    for (const output of outputs) {
+        const script = Utils.toArray(output.lockingScript, 'hex')
+        writer.writeUInt64LE(output.satoshis)
+        writer.writeVarIntNum(script.length)
+        writer.write(script)
+    }
+    return Utils.toHex(writer.toArray())
+}
+
+export const p2pkhLockingScriptForKey = (publicKey: string): string => {
+    return new P2PKH().lock(PublicKey.fromString(publicKey).toHash()).toHex()
+}
+
+const verifyPendingContractCallTarget = (escrow: EscrowTX, pending: PendingContractCall): void => {
+    if (pending.escrowTxid !== escrow.record.txid || pending.escrowOutputIndex !== escrow.record.outputIndex) {
+        throw new Error('Pending contract call was created for a different contract output')
+    }
+}
+
+const createSignableContractCall = async (
+    wallet: WalletInterface,
+    escrow: EscrowTX,
+    methodName: EscrowMethodName,
+    blankedParams: ContractCallValue[],
+    nextOutputAmount: number | undefined,
+    otherOutputs: CreateActionOutput[] | undefined,
+    sequenceNumber: number,
+    lockTime: number,
+    unlockingScriptLength: number
+): Promise<{ tx: number[], reference: string }> => {
     escrow.contract.to = {
         tx: new bsv.Transaction().addInput(new bsv.Transaction.Input({
             prevTxId: escrow.record.txid,
@@ -168,16 +1530,8 @@ export const callContractMethod = async (
     }
 
     // Get the next locking script using the non-assertion code path
-    let nextLockingScript: string
-    if (typeof (escrow.contract as any)[methodName] === 'function') {
-        const clone = EscrowContract.fromLockingScript(escrow.script);
-        (clone as any)[methodName](...blankedParams);
-        nextLockingScript = clone.lockingScript.toHex();
-    } else {
-        nextLockingScript = escrow.script;
-    }
+    const nextLockingScript = nextLockingScriptForMethod(escrow, methodName, blankedParams, sequenceNumber, lockTime)
 
-    // Get a signable transaction we can work with
     const { signableTransaction } = await wallet.createAction({
         description: 'Update contract',
         inputBEEF: escrow.beef,
@@ -198,10 +1552,111 @@ export const callContractMethod = async (
             acceptDelayedBroadcast: false
         }
     })
+    if (signableTransaction === undefined) throw new Error('Signable transaction missing from create action result')
+    return signableTransaction
+}
 
-    // The preimage we'll sign depends on the hash type
+/**
+ * Fee rate, in satoshis per kilobyte, that pending contract calls pay up front.
+ */
+const PENDING_CALL_FEE_RATE = 1
+
+// A placeholder unlocking script of the length the real one is expected to have, for fee estimates
+const unlockingScriptOfLength = (length: number): { sign: () => Promise<UnlockingScript>, estimateLength: () => Promise<number> } => ({
+    sign: async () => new UnlockingScript(),
+    estimateLength: async () => length
+})
+
+const createFundedContractCall = async (
+    wallet: WalletInterface,
+    escrow: EscrowTX,
+    methodName: EscrowMethodName,
+    blankedParams: ContractCallValue[],
+    fundedBy: string,
+    signatory: ContractCallSignatory,
+    nextOutputAmount: number | undefined,
+    otherOutputs: CreateActionOutput[] | undefined,
+    sequenceNumber: number,
+    lockTime: number,
+    unlockingScriptLength: number
+): Promise<number[]> => {
+    escrow.contract.to = {
+        tx: new bsv.Transaction().addInput(new bsv.Transaction.Input({
+            prevTxId: escrow.record.txid,
+            prevOutputIndex: escrow.record.outputIndex,
+            script: new bsv.Script('')
+        }), escrow.script, escrow.satoshis),
+        inputIndex: 0
+    }
+    const outputs = (otherOutputs ?? []).map(x => ({ satoshis: x.satoshis, lockingScript: LockingScript.fromHex(x.lockingScript) }))
+    if (typeof nextOutputAmount === 'number') {
+        outputs.unshift({
+            satoshis: nextOutputAmount,
+            lockingScript: LockingScript.fromHex(nextLockingScriptForMethod(escrow, methodName, blankedParams, sequenceNumber, lockTime))
+        })
+    }
+    const contractInput = {
+        sourceTransaction: Transaction.fromBEEF(escrow.beef, escrow.record.txid),
+        sourceOutputIndex: escrow.record.outputIndex,
+        sequence: sequenceNumber
+    }
+
+    // The fee input spends a P2PKH output, with up to 73 bytes of signature and a 33 byte key
+    const estimate = new Transaction(1, [
+        { ...contractInput, unlockingScriptTemplate: unlockingScriptOfLength(unlockingScriptLength) },
+        { sourceTXID: '00'.repeat(32), sourceOutputIndex: 0, unlockingScriptTemplate: unlockingScriptOfLength(108) }
+    ], outputs, lockTime)
+    const fee = await new SatoshisPerKilobyte(PENDING_CALL_FEE_RATE).computeFee(estimate)
+
+    // The fee output is spent in full, so the call needs no change output that could
+    // disturb the outputs the contract checks
+    const fundingScript = LockingScript.fromHex(p2pkhLockingScriptForKey(fundedBy))
+    const { tx: fundingBEEF } = await wallet.createAction({
+        description: 'Fund contract call',
+        outputs: [{
+            satoshis: fee,
+            lockingScript: fundingScript.toHex(),
+            outputDescription: 'Contract call fee'
+        }],
+        options: {
+            randomizeOutputs: false,
+            acceptDelayedBroadcast: false
+        }
+    })
+    if (fundingBEEF === undefined) throw new Error('Transaction data missing from create action result')
+    const fundingTX = Transaction.fromAtomicBEEF(fundingBEEF)
+    const tx = new Transaction(1, [
+        { ...contractInput, unlockingScript: new UnlockingScript() },
+        { sourceTransaction: fundingTX, sourceOutputIndex: 0, sequence: 0xffffffff }
+    ], outputs, lockTime)
+
+    // The fee input commits to every output, but not to the contract's unlocking script,
+    // which is only known once every party has signed
+    const scope = TransactionSignature.SIGHASH_ALL | TransactionSignature.SIGHASH_FORKID
+    const preimage = TransactionSignature.format({
+        sourceTXID: fundingTX.id('hex'),
+        sourceOutputIndex: 0,
+        sourceSatoshis: fee,
+        transactionVersion: tx.version,
+        otherInputs: [tx.inputs[0]],
+        inputIndex: 1,
+        inputSequence: 0xffffffff,
+        outputs: tx.outputs,
+        subscript: fundingScript,
+        lockTime,
+        scope
+    })
+    const feeSig = await signatory(Hash.sha256(preimage), scope)
+    tx.inputs[1].unlockingScript = UnlockingScript.fromHex(new Script()
+        .writeBin(Utils.toArray(feeSig, 'hex'))
+        .writeBin(PublicKey.fromString(fundedBy).encode(true) as number[])
+        .toHex())
+    return tx.toAtomicBEEF()
+}
+
+const preimageHashForContractCall = (escrow: EscrowTX, methodName: EscrowMethodName, signableTX: number[]): { preimageHash: number[], scope: number } => {
     const scope = escrow.contract.sigTypeOfMethod(`${methodName}OnChain`)
-    const partialTX = Transaction.fromAtomicBEEF(signableTransaction!.tx)
+    const partialTX = Transaction.fromAtomicBEEF(signableTX)
     const otherInputs = [...partialTX.inputs]
     otherInputs.splice(0, 1)
     const formatParams = {
@@ -218,15 +1673,10 @@ export const callContractMethod = async (
         scope
     }
     const preimage = TransactionSignature.format(formatParams)
-    const preimageHash = Hash.sha256(preimage)
-
-    // Obtain signatures from all signatories
-    const hydratedParams = await Promise.all(params.map(async p => {
-        if (p === 'WONTSIGN') return blankSig
-        if (typeof p !== 'function') return p
-        return await p(preimageHash, scope)
-    }))
+    return { preimageHash: Hash.sha256(preimage), scope }
+}
 
+const contractUnlockingScript = (escrow: EscrowTX, methodName: EscrowMethodName, partialTX: Transaction, hydratedParams: ContractCallValue[]): string => {
     const tx = new bsv.Transaction(partialTX.toHex())
     for (let i = 0; i < tx.inputs.length; i++) {
         tx.inputs[i].output = new bsv.Transaction.Output({
@@ -238,15 +1688,26 @@ export const callContractMethod = async (
         tx,
         inputIndex: 0
     }
+    return escrow.contract.getUnlockingScript((self) => {
+        invokeContractMethod(self, `${methodName}OnChain`, hydratedParams)
+    }).toHex()
+}
 
+const completeContractCall = async (
+    wallet: WalletInterface,
+    escrow: EscrowTX,
+    methodName: EscrowMethodName,
+    signableTransaction: { tx: number[], reference: string },
+    hydratedParams: ContractCallValue[],
+    sequenceNumber: number
+): Promise<SignActionResult> => {
     // Obtain an unlocking script
-    const unlockingScript = escrow.contract.getUnlockingScript((self) => {
-        (self as any)[`${methodName}OnChain`](...hydratedParams)
-    }).toHex()
+    const partialTX = Transaction.fromAtomicBEEF(signableTransaction.tx)
+    const unlockingScript = contractUnlockingScript(escrow, methodName, partialTX, hydratedParams)
 
     // Complete the transaction
     return await wallet.signAction({
-        reference: signableTransaction!.reference,
+        reference: signableTransaction.reference,
         spends: {
             0: {
                 unlockingScript,
@@ -257,4 +1718,4 @@ export const callContractMethod = async (
             acceptDelayedBroadcast: false
         }
     })
-}
\ No newline at end of file
+}
@@ -15,6 +15,7 @@
 import Seeker from '../src/entities/Seeker.js'
 import Furnisher from '../src/entities/Furnisher.js'
 import Platform from '../src/entities/Platform.js'
+import { PushDrop } from '@bsv/sdk'
 import {
   TEST_GLOBAL_CONFIG,
   TEST_SEEKER_PRIVATE_KEY,
@@ -434,6 +435,48 @@ describe('Dispute Resolution', () => {
     console.log(`✓ Successfully tracked ${historical.length} historical disputes`)
   })
 
+  it('should filter the platform decision ledger', async () => {
+    const decision = (resolutionTxid: string, outcome: 'seeker' | 'furnisher' | 'split', decidedAt: number, furnisherKey: string) => ({
+      escrowTxid: 'escrow-' + resolutionTxid,
+      escrowOutputIndex: 0,
+      resolutionTxid,
+      seekerKey: TEST_SEEKER_PRIVATE_KEY.toPublicKey().toString(),
+      furnisherKey,
+      outcome,
+      reopened: false,
+      amountForSeeker: outcome === 'furnisher' ? 0 : 5000,
+      amountForFurnisher: outcome === 'seeker' ? 0 : 5000,
+      platformFee: 100,
+      notes: 'Ruling notes',
+      decidedAt
+    })
+    const decisions = [
+      decision('txid-1', 'seeker', 1700000000, 'furnisher-1'),
+      decision('txid-2', 'furnisher', 1700100000, 'furnisher-2'),
+      decision('txid-3', 'split', 1700200000, 'furnisher-1')
+    ]
+    for (const d of decisions) {
+      const lockingScript = await new PushDrop(platformWallet).lock(
+        [Array.from(Buffer.from(JSON.stringify(d), 'utf8'))],
+        [2, 'escrow-decisions'],
+        d.resolutionTxid,
+        'self',
+        true,
+        false
+      )
+      platformWallet.addOutput({
+        lockingScript: lockingScript.toHex(),
+        basket: 'escrow-decisions',
+        tags: ['dispute', 'escrow', 'decision', d.outcome]
+      })
+    }
+
+    expect((await platform.listDecisions()).map(x => x.resolutionTxid)).toEqual(['txid-1', 'txid-2', 'txid-3'])
+    expect((await platform.listDecisions({ from: 1700050000 })).map(x => x.resolutionTxid)).toEqual(['txid-2', 'txid-3'])
+    expect((await platform.listDecisions({ to: 1700100000, partyKey: 'furnisher-1' })).map(x => x.resolutionTxid)).toEqual(['txid-1'])
+    expect((await platform.listDecisions({ outcome: 'split' })).map(x => x.resolutionTxid)).toEqual(['txid-3'])
+  })
+
   it('should validate dispute timing constraints', () => {
     const workCompletionTime = Math.floor(Date.now() / 1000)
     const approvalDeadline = workCompletionTime + TEST_GLOBAL_CONFIG.maxWorkApprovalDelay
@@ -484,7 +484,8 @@ describe('Integration Tests', () => {
         'topic',
         'service',
         'keyDerivationProtocol',
-        'networkPreset'
+        'networkPreset',
+        'bidMode'
       ]
 
       requiredFields.forEach(field => {
@@ -59,6 +59,19 @@ const TEST_GLOBAL_CONFIG: GlobalConfig = {
   bountyIncreaseAllowanceMode: 'by-seeker',
   bountyIncreaseCutoffPoint: 'bid-acceptance',
 
+  // Abandoned work settings
+  abandonedWorkRefundAllowed: false,
+  abandonedWorkGracePeriod: 0,
+
+  // Approval timeout settings
+  approvalTimeoutReleasesPayment: false,
+
+  // Dispute evidence settings
+  evidencePeriod: 0,
+
+  // Bidding settings
+  bidMode: 'off-chain',
+
   // Network settings
   platformKey: '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798', // Dummy platform key for testing
   topic: 'tm_escrow_test',
@@ -58,6 +58,19 @@ export const TEST_GLOBAL_CONFIG: GlobalConfig = {
   bountyIncreaseAllowanceMode: 'forbidden',
   bountyIncreaseCutoffPoint: 'bid-acceptance',
 
+  // Abandoned work settings
+  abandonedWorkRefundAllowed: true, // Seeker can reclaim funds if work is never submitted
+  abandonedWorkGracePeriod: 86400, // 24 hours (in seconds) after the deadline
+
+  // Approval timeout settings
+  approvalTimeoutReleasesPayment: false, // Furnisher must raise a dispute if the seeker never responds
+
+  // Dispute evidence settings
+  evidencePeriod: 86400, // 24 hours (in seconds) for both sides to commit their evidence
+
+  // Bidding settings
+  bidMode: 'off-chain', // Furnishers sign bids for the seeker to accept, instead of filling contract slots
+
   // Network settings
   platformKey: TEST_PLATFORM_PUBLIC_KEY,
   topic: 'test-escrow-topic',
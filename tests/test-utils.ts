@@ -4,7 +4,8 @@ import {
   PrivateKey,
   PublicKey,
   LockingScript,
-  P2PKH
+  P2PKH,
+  Signature
 } from '@bsv/sdk'
 import type {
   CreateActionResult,
@@ -20,8 +21,15 @@ import type {
   GetHeightResult,
   ListOutputsResult,
   ListOutputsArgs,
-  AtomicBEEF
+  AtomicBEEF,
+  LookupResolver,
+  TopicBroadcaster
 } from '@bsv/sdk'
+import { ByteString, FixedArray, hash160, hash256, PubKey, Sig, SmartContract, toByteString, Utils } from 'scrypt-ts'
+import type { AllowList, Bid, EscrowRecord, EscrowTX, GlobalConfig, Milestone, SealedBidding } from '../src/constants.js'
+import { Bid as ContractBid, EscrowContract } from '../src/contracts/Escrow.js'
+import { contractBidFromRecord, contractFromGlobalConfigAndParams } from '../src/utils.js'
+import { createWorkDeadline, TEST_GLOBAL_CONFIG, TEST_PLATFORM_PUBLIC_KEY, TEST_SEEKER_PUBLIC_KEY, TEST_WORK_DESCRIPTIONS } from './test-config.js'
 
 /**
  * Mock Wallet Implementation for Testing
@@ -336,6 +344,16 @@ export class MockLookupResolver {
   }
 }
 
+/**
+ * Mock network components, typed the way the entities take them
+ */
+export function createMockNetwork(
+  broadcaster = new MockBroadcaster(),
+  resolver = new MockLookupResolver()
+): [TopicBroadcaster, LookupResolver] {
+  return [broadcaster as unknown as TopicBroadcaster, resolver as unknown as LookupResolver]
+}
+
 /**
  * Test Data Generators
  */
@@ -444,6 +462,189 @@ export function generateMockBEEF(tx: Transaction): number[] {
   return Array.from(tx.toBinary())
 }
 
+/**
+ * An empty bid slot, which the contract marks with the seeker's key
+ */
+export function createEmptyBid(seekerKey: string = TEST_SEEKER_PUBLIC_KEY): Bid {
+  return { furnisherKey: seekerKey, plans: '', bidAmount: 0, bond: 0, timeOfBid: 0, timeRequired: 0 }
+}
+
+/**
+ * Build an escrow for tests of entity and helper logic that never reach the contract.
+ * It starts as an open bid contract between the test seeker and platform, with any
+ * record fields overridden. The contract is a real instance from createTestContract
+ * that shares the record's parties, contract type, bids and accepted bid. The rest of
+ * its configuration is the test default.
+ */
+export function createEscrowFixture(record: Partial<EscrowRecord> = {}, satoshis: number = 10000): EscrowTX {
+  const seekerKey = record.seekerKey ?? TEST_SEEKER_PUBLIC_KEY
+  const defaults: EscrowRecord = {
+    txid: 'aa'.repeat(32),
+    outputIndex: 0,
+    minAllowableBid: 1000,
+    escrowServiceFeeBasisPoints: 250,
+    platformAuthorizationRequired: false,
+    escrowMustBeFullyDecisive: false,
+    bountySolversNeedApproval: true,
+    furnisherBondingMode: 'optional',
+    requiredBondAmount: 0,
+    maxWorkStartDelay: 86400,
+    maxWorkApprovalDelay: 86400,
+    delayUnit: 'seconds',
+    workCompletionDeadline: 1800000000,
+    approvalMode: 'seeker',
+    contractType: 'bid',
+    contractSurvivesAdverseFurnisherDisputeResolution: false,
+    bountyIncreaseAllowanceMode: 'forbidden',
+    bountyIncreaseCutoffPoint: 'bid-acceptance',
+    abandonedWorkRefundAllowed: false,
+    abandonedWorkGracePeriod: 0,
+    approvalTimeoutReleasesPayment: false,
+    evidencePeriod: 0,
+    panelKeys: [],
+    panelThreshold: 0,
+    appealKey: '',
+    appealPeriod: 0,
+    milestones: [],
+    milestonesReleased: 0,
+    allowedFurnishers: [],
+    allowListRoot: '',
+    sealedBidding: false,
+    commitDeadline: 0,
+    revealDeadline: 0,
+    bidCommitments: ['', '', '', ''],
+    bids: [0, 1, 2, 3].map(() => createEmptyBid(seekerKey)),
+    seekerKey,
+    platformKey: TEST_PLATFORM_PUBLIC_KEY,
+    acceptedBid: createEmptyBid(seekerKey),
+    bidAcceptedBy: 'not-yet-accepted',
+    workCompletionTime: 0,
+    status: 'initial',
+    workDescription: '',
+    workCompletionDescription: '',
+    disputeTime: 0,
+    seekerEvidenceHash: '',
+    furnisherEvidenceHash: '',
+    rulingTime: 0,
+    rulingAmountForSeeker: 0,
+    rulingAmountForFurnisher: 0
+  }
+  const merged = { ...defaults, ...record }
+  const contract = createTestContract({
+    config: { ...TEST_GLOBAL_CONFIG, platformKey: merged.platformKey, contractType: merged.contractType },
+    seekerKey,
+    workCompletionDeadline: merged.workCompletionDeadline
+  })
+  contract.bids = merged.bids.map(contractBidFromRecord) as FixedArray<ContractBid, 4>
+  contract.acceptedBid = contractBidFromRecord(merged.acceptedBid)
+  return {
+    record: merged,
+    contract,
+    beef: [],
+    script: '',
+    satoshis
+  }
+}
+
+/**
+ * How a test contract is set up, on top of the test config and seeker.
+ */
+export interface TestContractOptions {
+  config?: GlobalConfig
+  seekerKey?: string
+  workCompletionDeadline?: number
+  milestones?: Milestone[]
+  allowList?: AllowList
+  sealedBidding?: SealedBidding
+}
+
+/**
+ * The transaction a contract method is called from: the value of the contract output it
+ * spends, its lock time, and the outputs that the method checks.
+ */
+export interface ContractSpend {
+  value: bigint
+  lockTime: number
+  outputs?: ByteString
+  sequence?: bigint
+}
+
+// Test signatures are made over this message instead of a spending transaction
+const CONTRACT_SIGNATURE_MESSAGE = [0x65, 0x73, 0x63, 0x72, 0x6f, 0x77]
+
+/**
+ * Build a real EscrowContract whose methods can be called one at a time, without a
+ * compiled artifact. Public methods run their own code against the spend set with
+ * spendContract, signatures from contractSig are checked against their keys, and state
+ * outputs carry a placeholder script, so the next state is read from the contract itself.
+ */
+export function createTestContract(options: TestContractOptions = {}): EscrowContract {
+  const initDelegateInstance: unknown = Reflect.get(SmartContract.prototype, '_initDelegateInstance')
+  // The delegate runs the compiled script, which is the one part these tests leave out
+  Reflect.set(SmartContract.prototype, '_initDelegateInstance', () => {})
+  let contract: EscrowContract
+  try {
+    contract = contractFromGlobalConfigAndParams(
+      options.config ?? TEST_GLOBAL_CONFIG,
+      options.seekerKey ?? TEST_SEEKER_PUBLIC_KEY,
+      TEST_WORK_DESCRIPTIONS.simple,
+      options.workCompletionDeadline ?? createWorkDeadline(168),
+      options.milestones,
+      options.allowList,
+      options.sealedBidding
+    )
+  } finally {
+    Reflect.set(SmartContract.prototype, '_initDelegateInstance', initDelegateInstance)
+  }
+  Object.defineProperties(contract, {
+    callDelegatedMethod: { value: () => undefined },
+    checkSig: { value: checkTestSig },
+    buildStateOutput: { value: stateOutput }
+  })
+  return contract
+}
+
+/**
+ * Set the transaction that the next contract method call is made from.
+ */
+export function spendContract(contract: EscrowContract, spend: ContractSpend): void {
+  Object.defineProperty(contract, 'ctx', {
+    configurable: true,
+    value: {
+      utxo: { value: spend.value },
+      locktime: BigInt(spend.lockTime),
+      sequence: spend.sequence ?? 0xfffffffen,
+      hashOutputs: hash256(spend.outputs ?? toByteString(''))
+    }
+  })
+}
+
+/**
+ * A signature that a test contract accepts for the key's public key.
+ */
+export function contractSig(key: PrivateKey): Sig {
+  return Sig(toByteString(key.sign(CONTRACT_SIGNATURE_MESSAGE).toDER('hex') as string))
+}
+
+/**
+ * The output a test contract builds for its next state.
+ */
+export function stateOutput(amount: bigint): ByteString {
+  return Utils.buildOutput(toByteString('51'), amount)
+}
+
+/**
+ * A payment to a key, as the contract builds it.
+ */
+export function paymentOutput(key: string, amount: bigint): ByteString {
+  return Utils.buildPublicKeyHashOutput(hash160(toByteString(key)), amount)
+}
+
+function checkTestSig(sig: Sig, key: PubKey): boolean {
+  if (sig.length === 0) return false // Arbiters who abstain leave their signature empty
+  return PublicKey.fromString(key).verify(CONTRACT_SIGNATURE_MESSAGE, Signature.fromDER(sig, 'hex'))
+}
+
 /**
  * Create a mock dispute record
  */
@@ -4,12 +4,75 @@
  * Tests for individual utility functions and components
  */
 
-import { recordFromContract, contractFromGlobalConfigAndParams } from '../src/utils.js'
-import { EscrowContract } from '../src/contracts/Escrow.js'
+import {
+  recordFromContract,
+  acceptingBids,
+  allowListProofFor,
+  allowListProofParams,
+  allowListRootFor,
+  appealDeadlineFor,
+  bidCommitmentFor,
+  bidExpired,
+  contractFromGlobalConfigAndParams,
+  buildClaimOutputs,
+  buildDisputeResolution,
+  buildMilestoneReleaseOutputs,
+  buildSettlementOutputs,
+  contractBidFromRecord,
+  contributionFromLockingScript,
+  commitContent,
+  contributionPayload,
+  decodeContentCommitment,
+  decodeWorkSpec,
+  encodeWorkDescription,
+  encodeWorkSpec,
+  escrowPublicMethods,
+  evidenceCommitmentsFor,
+  evidenceHashFor,
+  flagExpiredBids,
+  furnisherMayBid,
+  nextLockingScriptForMethod,
+  noPanelSignatures,
+  offChainBidFromLockingScript,
+  offChainBidMessage,
+  offChainBidPayload,
+  offChainBidSigned,
+  p2pkhLockingScriptForKey,
+  parseEscrowQuery,
+  pendingSignatureSlots,
+  resolveContent,
+  resolveEscrowContent,
+  serializeOutputs,
+  signDisputeMessage,
+  spendingMethodFor,
+  verifyAllowListProof,
+  verifyBidAcceptanceAuthorization,
+  verifyEvidence,
+  workDescriptionText
+} from '../src/utils.js'
+import { Bid as ContractBid, EscrowContract } from '../src/contracts/Escrow.js'
+import Furnisher from '../src/entities/Furnisher.js'
+import Platform from '../src/entities/Platform.js'
+import Seeker from '../src/entities/Seeker.js'
+import createEscrowLookupService from '../src/lookup-services/EscrowLookupServiceFactory.js'
+import { EscrowStorage } from '../src/lookup-services/EscrowStorage.js'
+import InMemoryDisputeMessenger from '../src/messaging/InMemoryDisputeMessenger.js'
+import HttpDisputeMessenger from '../src/messaging/HttpDisputeMessenger.js'
+import FileSystemContentStore from '../src/content/FileSystemContentStore.js'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { AddressInfo } from 'node:net'
 import {
   TEST_GLOBAL_CONFIG,
   TEST_SEEKER_PRIVATE_KEY,
+  TEST_SEEKER_PUBLIC_KEY,
+  TEST_FURNISHER_PRIVATE_KEY,
+  TEST_FURNISHER_PUBLIC_KEY,
+  TEST_PLATFORM_PRIVATE_KEY,
+  TEST_PLATFORM_PUBLIC_KEY,
   TEST_WORK_DESCRIPTIONS,
+  TEST_COMPLETION_DESCRIPTIONS,
   TEST_AMOUNTS,
   createWorkDeadline,
   advanceTime
@@ -23,8 +86,21 @@ import {
   assertNotEmpty,
   MockWallet,
   MockBroadcaster,
-  MockLookupResolver
+  MockLookupResolver,
+  createEmptyBid,
+  createEscrowFixture,
+  createMockNetwork,
+  createTestContract,
+  contractSig,
+  paymentOutput,
+  spendContract,
+  stateOutput,
+  TestContractOptions
 } from './test-utils.js'
+import { ByteString, PubKey, Sig, toByteString } from 'scrypt-ts'
+import { CreateActionArgs, LockingScript, PrivateKey, PushDrop, Script, Spend, Transaction, Utils } from '@bsv/sdk'
+import type { AllowListProof, Bid, BidAcceptanceAuthorization, DisputeMessage, EscrowRecord, EscrowTX, EscrowVersionRecord, GlobalConfig, OffChainBidRecord, UTXOReference, WorkSpec } from '../src/constants.js'
+import type { Db, Document, Filter } from 'mongodb'
 import escrowArtifact from '../artifacts/Escrow.json'
 
 // Load artifact before running tests
@@ -138,6 +214,18 @@ describe('Utility Functions', () => {
       expect(Array.isArray(record.bids)).toBe(true)
     })
 
+    it('should carry the approval timeout release flag', () => {
+      const [off, on] = [false, true].map(approvalTimeoutReleasesPayment => recordFromContract('test-txid', 0, contractFromGlobalConfigAndParams(
+        { ...TEST_GLOBAL_CONFIG, approvalTimeoutReleasesPayment },
+        TEST_SEEKER_PRIVATE_KEY.toPublicKey().toString(),
+        TEST_WORK_DESCRIPTIONS.simple,
+        createWorkDeadline(168)
+      )))
+
+      expect(off.approvalTimeoutReleasesPayment).toBe(false)
+      expect(on.approvalTimeoutReleasesPayment).toBe(true)
+    })
+
     it('should correctly map all status values', () => {
       const statuses = [
         { contract: EscrowContract.STATUS_INITIAL, expected: 'initial' },
@@ -190,6 +278,1654 @@ describe('Utility Functions', () => {
   })
 })
 
+describe('nextLockingScriptForMethod', () => {
+  it('should apply the lock time to off-chain state transitions', () => {
+    const contract = contractFromGlobalConfigAndParams(
+      { ...TEST_GLOBAL_CONFIG, contractType: 'bounty', bountySolversNeedApproval: false },
+      TEST_SEEKER_PRIVATE_KEY.toPublicKey().toString(),
+      TEST_WORK_DESCRIPTIONS.simple,
+      createWorkDeadline(168)
+    )
+    const txid = '00'.repeat(32)
+    const escrow = {
+      record: recordFromContract(txid, 0, contract),
+      contract,
+      beef: [],
+      script: contract.lockingScript.toHex(),
+      satoshis: 5000
+    }
+    const lockTime = advanceTime(60)
+    const adHocBid = {
+      furnisherKey: PubKey(toByteString(TEST_FURNISHER_PUBLIC_KEY)),
+      plans: toByteString(''),
+      bidAmount: 5000n,
+      bond: 0n,
+      timeRequired: 0n,
+      timeOfBid: BigInt(lockTime),
+      validUntil: 0n
+    }
+
+    const script = nextLockingScriptForMethod(
+      escrow,
+      'furnisherSubmitsWork',
+      ['WONTSIGN', toByteString(TEST_COMPLETION_DESCRIPTIONS.success, true), adHocBid, ...allowListProofParams()],
+      0xfffffffe,
+      lockTime
+    )
+    const next = EscrowContract.fromLockingScript(script) as EscrowContract
+
+    expect(next.status).toBe(EscrowContract.STATUS_WORK_SUBMITTED)
+    expect(next.workCompletionTime).toBe(BigInt(lockTime))
+    expect(next.acceptedBid.furnisherKey).toBe(TEST_FURNISHER_PUBLIC_KEY)
+  })
+})
+
+describe('Settlement Outputs', () => {
+  const record = () => recordFromContract('txid', 0, contractFromGlobalConfigAndParams(
+    TEST_GLOBAL_CONFIG,
+    TEST_SEEKER_PRIVATE_KEY.toPublicKey().toString(),
+    TEST_WORK_DESCRIPTIONS.simple,
+    createWorkDeadline(168)
+  ))
+
+  it('should pay the seeker before the furnisher', () => {
+    const escrow = record()
+    escrow.acceptedBid.furnisherKey = TEST_FURNISHER_PUBLIC_KEY
+
+    const outputs = buildSettlementOutputs(escrow, 3000, 2000)
+
+    expect(outputs.length).toBe(2)
+    expect(outputs[0].satoshis).toBe(3000)
+    expect(outputs[0].lockingScript).toBe(p2pkhLockingScriptForKey(escrow.seekerKey))
+    expect(outputs[1].satoshis).toBe(2000)
+    expect(outputs[1].lockingScript).toBe(p2pkhLockingScriptForKey(TEST_FURNISHER_PUBLIC_KEY))
+  })
+
+  it('should omit zero payouts', () => {
+    const escrow = record()
+    escrow.acceptedBid.furnisherKey = TEST_FURNISHER_PUBLIC_KEY
+
+    const outputs = buildSettlementOutputs(escrow, 0, 5000)
+
+    expect(outputs.length).toBe(1)
+    expect(outputs[0].lockingScript).toBe(p2pkhLockingScriptForKey(TEST_FURNISHER_PUBLIC_KEY))
+  })
+
+  it('should refuse seeker-only payouts when the contract survives', () => {
+    const escrow = record()
+    escrow.contractSurvivesAdverseFurnisherDisputeResolution = true
+
+    expect(() => buildSettlementOutputs(escrow, 5000, 0)).toThrow()
+  })
+
+  it('should serialize outputs as they appear in a transaction', () => {
+    const lockingScript = p2pkhLockingScriptForKey(TEST_FURNISHER_PUBLIC_KEY)
+
+    const serialized = serializeOutputs([{ satoshis: 1000, lockingScript, outputDescription: 'Fee' }])
+
+    expect(serialized).toBe('e803000000000000' + '19' + lockingScript)
+  })
+})
+
+describe('Dispute Evidence', () => {
+  const evidence = Array.from(Buffer.from('Screenshots and chat logs', 'utf8'))
+  const record = (seekerEvidenceHash: string, furnisherEvidenceHash: string): EscrowRecord => createEscrowFixture({ seekerEvidenceHash, furnisherEvidenceHash }).record
+
+  it('should verify a bundle against the hash its party anchored', () => {
+    const anchored = record(evidenceHashFor(evidence), '')
+
+    expect(verifyEvidence(anchored, 'seeker', evidence)).toBe(true)
+    expect(verifyEvidence(anchored, 'seeker', [...evidence, 0])).toBe(false)
+    expect(verifyEvidence(anchored, 'furnisher', evidence)).toBe(false)
+  })
+
+  it('should only list the parties that submitted evidence', () => {
+    const commitments = evidenceCommitmentsFor(record('', evidenceHashFor(evidence)))
+
+    expect(commitments).toEqual([{ party: 'furnisher', evidenceHash: evidenceHashFor(evidence) }])
+  })
+
+  it('should only take evidence from the parties to the dispute', async () => {
+    const disputed = createEscrowFixture({
+      status: 'disputed-by-furnisher',
+      acceptedBid: { ...createEmptyBid(), furnisherKey: TEST_FURNISHER_PUBLIC_KEY }
+    })
+    const outsider = new MockWallet(TEST_PLATFORM_PRIVATE_KEY)
+
+    await expect(new Seeker(TEST_GLOBAL_CONFIG, outsider, ...createMockNetwork()).submitEvidence(disputed, evidence))
+      .rejects.toThrow('Only the seeker in the dispute')
+    await expect(new Furnisher(TEST_GLOBAL_CONFIG, outsider, ...createMockNetwork()).submitEvidence(disputed, evidence))
+      .rejects.toThrow('Only the furnisher in the dispute')
+  })
+})
+
+describe('Dispute Messaging', () => {
+  const unsigned = {
+    txid: 'cc'.repeat(32),
+    outputIndex: 0,
+    role: 'seeker' as const,
+    senderKey: TEST_SEEKER_PRIVATE_KEY.toPublicKey().toString()
+  }
+  const signed = async (to: string = TEST_PLATFORM_PUBLIC_KEY, evidence?: number[]): Promise<Omit<DisputeMessage, 'id' | 'sentAt' | 'acknowledged'>> => {
+    return await signDisputeMessage(new MockWallet(TEST_SEEKER_PRIVATE_KEY), TEST_GLOBAL_CONFIG, to, { ...unsigned, evidence })
+  }
+
+  it('should hide acknowledged messages from the inbox', async () => {
+    const messenger = new InMemoryDisputeMessenger()
+    const sent = await messenger.send(TEST_PLATFORM_PUBLIC_KEY, await signed())
+
+    expect(await messenger.listInbox(TEST_PLATFORM_PUBLIC_KEY)).toEqual([sent])
+    await messenger.acknowledge(TEST_PLATFORM_PUBLIC_KEY, sent.id)
+    expect(await messenger.listInbox(TEST_PLATFORM_PUBLIC_KEY)).toEqual([])
+    expect((await messenger.listInbox(TEST_PLATFORM_PUBLIC_KEY, true))[0].acknowledged).toBe(true)
+  })
+
+  it('should only take messages signed by their sender for this inbox', async () => {
+    const messenger = new InMemoryDisputeMessenger()
+    const message = await signed()
+
+    await expect(messenger.send(TEST_PLATFORM_PUBLIC_KEY, { ...message, signature: '' })).rejects.toThrow('must be signed by its sender')
+    await expect(messenger.send(TEST_PLATFORM_PUBLIC_KEY, { ...message, senderKey: TEST_FURNISHER_PUBLIC_KEY })).rejects.toThrow('must be signed by its sender')
+    await expect(messenger.send(TEST_PLATFORM_PUBLIC_KEY, { ...message, evidence: [1] })).rejects.toThrow('must be signed by its sender')
+    await expect(messenger.send(TEST_FURNISHER_PUBLIC_KEY, message)).rejects.toThrow('must be signed by its sender')
+    expect(await messenger.listInbox(TEST_PLATFORM_PUBLIC_KEY)).toEqual([])
+  })
+
+  it('should deliver messages over local HTTP', async () => {
+    const inbox = new InMemoryDisputeMessenger()
+    const server = await inbox.listen(0)
+    try {
+      const { port } = server.address() as AddressInfo
+      const messenger = new HttpDisputeMessenger(`http://localhost:${port}`)
+      const sent = await messenger.send(TEST_PLATFORM_PUBLIC_KEY, await signed(TEST_PLATFORM_PUBLIC_KEY, [1, 2, 3]))
+
+      expect(await inbox.listInbox(TEST_PLATFORM_PUBLIC_KEY)).toEqual([sent])
+      await messenger.acknowledge(TEST_PLATFORM_PUBLIC_KEY, sent.id)
+      expect(await messenger.listInbox(TEST_PLATFORM_PUBLIC_KEY)).toEqual([])
+      await expect(messenger.send(TEST_PLATFORM_PUBLIC_KEY, { ...unsigned, signature: '' })).rejects.toThrow('must be signed by its sender')
+    } finally {
+      server.close()
+    }
+  })
+})
+
+describe('Claim Outputs', () => {
+  const escrow = (satoshis: number, escrowServiceFeeBasisPoints: number): EscrowTX => createEscrowFixture({ escrowServiceFeeBasisPoints }, satoshis)
+
+  it('should pay the platform fee before the furnisher', () => {
+    const outputs = buildClaimOutputs(escrow(10000, 250), TEST_FURNISHER_PUBLIC_KEY)
+
+    expect(outputs.length).toBe(2)
+    expect(outputs[0].satoshis).toBe(250)
+    expect(outputs[0].lockingScript).toBe(p2pkhLockingScriptForKey(TEST_PLATFORM_PUBLIC_KEY))
+    expect(outputs[1].satoshis).toBe(9750)
+    expect(outputs[1].lockingScript).toBe(p2pkhLockingScriptForKey(TEST_FURNISHER_PUBLIC_KEY))
+  })
+
+  it('should round the fee down like the contract does', () => {
+    const outputs = buildClaimOutputs(escrow(1999, 250), TEST_FURNISHER_PUBLIC_KEY)
+
+    expect(outputs[0].satoshis).toBe(49)
+    expect(outputs[1].satoshis).toBe(1950)
+  })
+
+  it('should omit the fee output when no fee is owed', () => {
+    const outputs = buildClaimOutputs(escrow(10000, 0), TEST_FURNISHER_PUBLIC_KEY)
+
+    expect(outputs.length).toBe(1)
+    expect(outputs[0].satoshis).toBe(10000)
+  })
+
+  it('should only let the accepted furnisher claim payment', async () => {
+    const resolved = createEscrowFixture({
+      status: 'resolved',
+      acceptedBid: { ...createEmptyBid(), furnisherKey: TEST_FURNISHER_PUBLIC_KEY }
+    })
+    const impostor = new Furnisher(TEST_GLOBAL_CONFIG, new MockWallet(TEST_SEEKER_PRIVATE_KEY), ...createMockNetwork())
+
+    await expect(impostor.claimBounty(resolved)).rejects.toThrow('work accepted from another furnisher')
+  })
+
+  it('should not claim payment before the work is approved', async () => {
+    const furnisher = new Furnisher(TEST_GLOBAL_CONFIG, new MockWallet(TEST_FURNISHER_PRIVATE_KEY), ...createMockNetwork())
+
+    await expect(furnisher.claimBounty(escrow(10000, 250))).rejects.toThrow('Cannot claim payment in current state: initial')
+  })
+})
+
+describe('Mutual Settlement', () => {
+  // The contract output being spent only has to exist for the settlement to be built and signed
+  const source = new Transaction()
+  source.addOutput({ lockingScript: LockingScript.fromHex(p2pkhLockingScriptForKey(TEST_PLATFORM_PUBLIC_KEY)), satoshis: 10000 })
+  const escrow: EscrowTX = {
+    ...createEscrowFixture({
+      txid: source.id('hex'),
+      status: 'disputed-by-seeker',
+      acceptedBid: { ...createEmptyBid(), furnisherKey: TEST_FURNISHER_PUBLIC_KEY }
+    }),
+    beef: source.toBEEF(),
+    script: source.outputs[0].lockingScript.toHex()
+  }
+  const seeker = new Seeker(TEST_GLOBAL_CONFIG, new MockWallet(TEST_SEEKER_PRIVATE_KEY), ...createMockNetwork())
+  const furnisher = new Furnisher(TEST_GLOBAL_CONFIG, new MockWallet(TEST_FURNISHER_PRIVATE_KEY), ...createMockNetwork())
+
+  it('should gather both signatures on a split that pays its own fee', async () => {
+    const proposed = await seeker.proposeSettlement(escrow, 4000, 6000)
+    const accepted = await furnisher.acceptSettlement(escrow, proposed)
+
+    const slots = pendingSignatureSlots(accepted.params)
+    expect(slots.map(x => x.signerKey)).toEqual([TEST_SEEKER_PUBLIC_KEY, TEST_FURNISHER_PUBLIC_KEY])
+    expect(slots.every(x => x.signature !== undefined)).toBe(true)
+
+    // Only the payouts, with the fee input spent in full so no change output is needed
+    const tx = Transaction.fromAtomicBEEF(Utils.toArray(accepted.signableTransaction, 'hex'))
+    expect(tx.outputs.map(x => x.satoshis)).toEqual([4000, 6000])
+    expect(tx.inputs.length).toBe(2)
+  })
+
+  it('should sign the fee input so that anyone can broadcast the settlement', async () => {
+    const proposed = await seeker.proposeSettlement(escrow, 4000, 6000)
+    const tx = Transaction.fromAtomicBEEF(Utils.toArray(proposed.signableTransaction, 'hex'))
+    const feeInput = tx.inputs[1]
+    const feeOutput = feeInput.sourceTransaction!.outputs[0]
+
+    const spend = new Spend({
+      sourceTXID: feeInput.sourceTransaction!.id('hex'),
+      sourceOutputIndex: 0,
+      sourceSatoshis: feeOutput.satoshis!,
+      lockingScript: feeOutput.lockingScript,
+      transactionVersion: tx.version,
+      otherInputs: [tx.inputs[0]],
+      outputs: tx.outputs,
+      inputIndex: 1,
+      unlockingScript: feeInput.unlockingScript!,
+      inputSequence: feeInput.sequence!,
+      lockTime: tx.lockTime
+    })
+    expect(feeOutput.satoshis).toBeGreaterThan(0)
+    expect(spend.validate()).toBe(true)
+  })
+
+  it('should wait for every signature before either party finalizes', async () => {
+    const proposed = await seeker.proposeSettlement(escrow, 4000, 6000)
+
+    await expect(furnisher.finalizeSettlement(escrow, proposed)).rejects.toThrow(`missing a signature from ${TEST_FURNISHER_PUBLIC_KEY}`)
+  })
+
+  it('should only take proposals from the parties to the dispute', async () => {
+    const outsider = new MockWallet(TEST_PLATFORM_PRIVATE_KEY)
+
+    await expect(new Seeker(TEST_GLOBAL_CONFIG, outsider, ...createMockNetwork()).proposeSettlement(escrow, 4000, 6000))
+      .rejects.toThrow('Only the seeker in the dispute')
+    await expect(new Furnisher(TEST_GLOBAL_CONFIG, outsider, ...createMockNetwork()).proposeSettlement(escrow, 4000, 6000))
+      .rejects.toThrow('work submitted by another furnisher')
+  })
+})
+
+describe('Panel Rulings', () => {
+  const escrow = (contractSurvivesAdverseFurnisherDisputeResolution: boolean): EscrowTX => createEscrowFixture({
+    contractType: 'bounty',
+    acceptedBid: { ...createEmptyBid(), furnisherKey: TEST_FURNISHER_PUBLIC_KEY },
+    escrowServiceFeeBasisPoints: 100,
+    contractSurvivesAdverseFurnisherDisputeResolution
+  })
+
+  it('should pay out and take the platform fee after a split ruling', () => {
+    const resolution = buildDisputeResolution(escrow(false), 4000, 5900)
+
+    expect(resolution.reopens).toBe(false)
+    expect(resolution.nextOutputAmount).toBeUndefined()
+    expect(resolution.outputs.map(x => x.satoshis)).toEqual([4000, 5900, 100])
+  })
+
+  it('should keep the seeker share in a surviving contract', () => {
+    const resolution = buildDisputeResolution(escrow(true), 9900, 0)
+
+    expect(resolution.reopens).toBe(true)
+    expect(resolution.nextOutputAmount).toBe(9900)
+    expect(resolution.outputs).toEqual(resolution.feeOutputs)
+  })
+
+  it('should reject payouts exceeding the balance', () => {
+    expect(() => buildDisputeResolution(escrow(false), 5000, 5000)).toThrow('exceed the contract balance')
+  })
+
+  it('should find signature slots nested in the panel signatures', () => {
+    const slots = pendingSignatureSlots([
+      { type: 'bigint', value: '1' },
+      { type: 'no-signature' },
+      {
+        type: 'array',
+        items: [
+          { type: 'signature', signerKey: 'a', signature: '30', optional: true },
+          { type: 'signature', signerKey: 'b', optional: true },
+          { type: 'bytes', value: '' }
+        ]
+      }
+    ])
+
+    expect(slots.map(x => x.signerKey)).toEqual(['a', 'b'])
+    expect(slots.filter(x => x.signature !== undefined).length).toBe(1)
+  })
+})
+
+describe('Appeals', () => {
+  const escrow = (status: EscrowRecord['status']): EscrowTX => createEscrowFixture({
+    contractType: 'bounty',
+    status,
+    acceptedBid: { ...createEmptyBid(), furnisherKey: TEST_FURNISHER_PUBLIC_KEY },
+    escrowServiceFeeBasisPoints: 100,
+    appealPeriod: 144,
+    rulingTime: 1000
+  })
+
+  it('should keep the whole balance in the contract for a provisional ruling', () => {
+    const resolution = buildDisputeResolution(escrow('disputed-by-seeker'), 4000, 5900)
+
+    expect(resolution.provisional).toBe(true)
+    expect(resolution.nextOutputAmount).toBe(10000)
+    expect(resolution.outputs).toEqual([])
+  })
+
+  it('should pay out the ruling once it is finalized', () => {
+    const resolution = buildDisputeResolution(escrow('provisionally-resolved'), 4000, 5900)
+
+    expect(resolution.provisional).toBe(false)
+    expect(resolution.outputs.map(x => x.satoshis)).toEqual([4000, 5900, 100])
+  })
+
+  it('should close the appeal period after the ruling plus the delay', () => {
+    expect(appealDeadlineFor(escrow('provisionally-resolved').record)).toBe(1144)
+  })
+})
+
+describe('Milestones', () => {
+  const escrow = (satoshis: number, milestonesReleased: number): EscrowTX => createEscrowFixture({
+    acceptedBid: { ...createEmptyBid(), furnisherKey: TEST_FURNISHER_PUBLIC_KEY },
+    escrowServiceFeeBasisPoints: 250,
+    milestones: [
+      { amount: 3000, deadline: 100, status: 'released' },
+      { amount: 3000, deadline: 200, status: 'submitted' },
+      { amount: 4000, deadline: 300, status: 'pending' }
+    ],
+    milestonesReleased
+  }, satoshis)
+
+  it('should release a milestone less its share of the fee', () => {
+    const { nextOutputAmount, outputs } = buildMilestoneReleaseOutputs(escrow(7000, 1))
+
+    expect(nextOutputAmount).toBe(4000)
+    expect(outputs.map(x => x.satoshis)).toEqual([2925, 75])
+    expect(outputs[0].lockingScript).toBe(p2pkhLockingScriptForKey(TEST_FURNISHER_PUBLIC_KEY))
+    expect(outputs[1].lockingScript).toBe(p2pkhLockingScriptForKey(TEST_PLATFORM_PUBLIC_KEY))
+  })
+
+  it('should leave the last milestone in the contract to be claimed', () => {
+    const { nextOutputAmount, outputs } = buildMilestoneReleaseOutputs(escrow(4000, 2))
+
+    expect(nextOutputAmount).toBe(4000)
+    expect(outputs).toEqual([])
+  })
+
+  it('should refuse once every milestone is released', () => {
+    expect(() => buildMilestoneReleaseOutputs(escrow(4000, 3))).toThrow('no milestone left')
+  })
+
+  it('should not pay a race bounty in milestones', async () => {
+    const deadline = createWorkDeadline(168)
+    const seeker = new Seeker(
+      { ...TEST_GLOBAL_CONFIG, bountySolversNeedApproval: false },
+      new MockWallet(TEST_SEEKER_PRIVATE_KEY),
+      ...createMockNetwork()
+    )
+
+    await expect(seeker.seek(TEST_WORK_DESCRIPTIONS.simple, deadline, 6000, 'bounty', [
+      { amount: 3000, deadline: deadline - 3600 },
+      { amount: 3000, deadline }
+    ])).rejects.toThrow('cannot be paid in milestones')
+  })
+})
+
+describe('Allow-lists', () => {
+  const keys = [1, 2, 3, 4, 5].map(n => new PrivateKey(n).toPublicKey().toString())
+  const outsider = new PrivateKey(6).toPublicKey().toString()
+
+  it('should prove every member of an uneven list', () => {
+    const root = allowListRootFor(keys)
+
+    keys.forEach(key => {
+      expect(verifyAllowListProof(root, key, allowListProofFor(keys, key))).toBe(true)
+    })
+  })
+
+  it('should reject a proof used by someone else', () => {
+    const root = allowListRootFor(keys)
+
+    expect(verifyAllowListProof(root, outsider, allowListProofFor(keys, keys[0]))).toBe(false)
+    expect(() => allowListProofFor(keys, outsider)).toThrow('not on the allow-list')
+  })
+
+  it('should only let invited furnishers bid', () => {
+    const record = (allowedFurnishers: string[], allowListRoot: string): EscrowRecord => createEscrowFixture({ allowedFurnishers, allowListRoot }).record
+
+    expect(furnisherMayBid(record([], ''), outsider)).toBe(true)
+    expect(furnisherMayBid(record(keys.slice(0, 2), ''), keys[1])).toBe(true)
+    expect(furnisherMayBid(record(keys.slice(0, 2), ''), outsider)).toBe(false)
+    expect(furnisherMayBid(record([], allowListRootFor(keys)), keys[4])).toBe(false)
+    expect(furnisherMayBid(record([], allowListRootFor(keys)), keys[4], allowListProofFor(keys, keys[4]))).toBe(true)
+  })
+})
+
+describe('Sealed Bids', () => {
+  const bid = {
+    furnisherKey: TEST_FURNISHER_PUBLIC_KEY,
+    plans: toByteString('Build it in Rust', true),
+    bidAmount: 5000,
+    bond: 100,
+    timeOfBid: 1000,
+    timeRequired: 300
+  }
+  const salt = '11'.repeat(32)
+
+  it('should commit to every revealed term of the bid', () => {
+    const commitment = bidCommitmentFor(bid, salt)
+
+    expect(commitment).toHaveLength(64)
+    expect(bidCommitmentFor({ ...bid, timeOfBid: 2000 }, salt)).toBe(commitment)
+    expect(bidCommitmentFor({ ...bid, bidAmount: 4999 }, salt)).not.toBe(commitment)
+    expect(bidCommitmentFor({ ...bid, bond: 0 }, salt)).not.toBe(commitment)
+    expect(bidCommitmentFor({ ...bid, timeRequired: 301 }, salt)).not.toBe(commitment)
+    expect(bidCommitmentFor({ ...bid, validUntil: 0 }, salt)).toBe(commitment)
+    expect(bidCommitmentFor({ ...bid, validUntil: 1700003600 }, salt)).not.toBe(commitment)
+    expect(bidCommitmentFor(bid, '22'.repeat(32))).not.toBe(commitment)
+  })
+
+  it('should only accept sealed bids once they are revealed', () => {
+    const record = (sealedBidding: boolean, status: EscrowRecord['status']): EscrowRecord => createEscrowFixture({ sealedBidding, status }).record
+
+    expect(acceptingBids(record(false, 'initial'))).toBe(true)
+    expect(acceptingBids(record(true, 'initial'))).toBe(false)
+    expect(acceptingBids(record(true, 'revealing-bids'))).toBe(false)
+    expect(acceptingBids(record(true, 'bids-revealed'))).toBe(true)
+  })
+
+  it('should refuse sealed bidding on bounty contracts', () => {
+    expect(() => contractFromGlobalConfigAndParams(
+      { ...TEST_GLOBAL_CONFIG, contractType: 'bounty' },
+      TEST_FURNISHER_PUBLIC_KEY,
+      'Work',
+      createWorkDeadline(24),
+      [],
+      undefined,
+      { commitDeadline: 100, revealDeadline: 200 }
+    )).toThrow('Only bid contracts')
+  })
+})
+
+describe('Off-chain Bids', () => {
+  const escrow = (): EscrowTX => createEscrowFixture({ workDescription: toByteString(TEST_WORK_DESCRIPTIONS.simple, true) })
+
+  const bidFrom = (furnisherKey: string): Bid => ({
+    furnisherKey,
+    plans: toByteString('My plans', true),
+    bidAmount: TEST_AMOUNTS.standardBid,
+    bond: 0,
+    timeOfBid: 1700000000,
+    timeRequired: 86400
+  })
+
+  const lockBid = async (wallet: MockWallet, bid: Bid): Promise<LockingScript> => {
+    const { signature } = await wallet.createSignature({
+      protocolID: TEST_GLOBAL_CONFIG.keyDerivationProtocol,
+      keyID: '1',
+      counterparty: 'self',
+      data: offChainBidMessage(escrow().record, escrow().record.txid, escrow().record.outputIndex, bid)
+    })
+    const payload = offChainBidPayload(escrow(), bid, Utils.toHex(signature))
+    return await new PushDrop(wallet).lock([payload], TEST_GLOBAL_CONFIG.keyDerivationProtocol, '1', 'self', true, true)
+  }
+
+  it('should decode a bid signed by its furnisher', async () => {
+    const wallet = new MockWallet(TEST_FURNISHER_PRIVATE_KEY)
+
+    const record = offChainBidFromLockingScript('bb'.repeat(32), 1, await lockBid(wallet, bidFrom(TEST_FURNISHER_PUBLIC_KEY)))
+
+    expect(record.txid).toBe('bb'.repeat(32))
+    expect(record.outputIndex).toBe(1)
+    expect(record.escrowTxid).toBe('aa'.repeat(32))
+    expect(record.escrowOutputIndex).toBe(0)
+    expect(record.bid.furnisherKey).toBe(TEST_FURNISHER_PUBLIC_KEY)
+    expect(record.bid.bidAmount).toBe(TEST_AMOUNTS.standardBid)
+  })
+
+  it('should reject a bid claiming to be from someone else', async () => {
+    const wallet = new MockWallet(TEST_FURNISHER_PRIVATE_KEY)
+
+    const script = await lockBid(wallet, bidFrom(TEST_SEEKER_PRIVATE_KEY.toPublicKey().toString()))
+
+    expect(() => offChainBidFromLockingScript('bb'.repeat(32), 0, script)).toThrow()
+  })
+
+  it('should only expire bids with a validity window once it has passed', async () => {
+    const wallet = new MockWallet(TEST_FURNISHER_PRIVATE_KEY)
+
+    const script = await lockBid(wallet, { ...bidFrom(TEST_FURNISHER_PUBLIC_KEY), validUntil: 1700003600 })
+    const { bid } = offChainBidFromLockingScript('bb'.repeat(32), 0, script)
+
+    expect(bid.validUntil).toBe(1700003600)
+    expect(bidExpired(bid, 1700003600)).toBe(false)
+    expect(bidExpired(bid, 1700003601)).toBe(true)
+    expect(bidExpired({ ...bid, validUntil: undefined }, 1800000000)).toBe(false)
+    expect(bidExpired({ ...bid, validUntil: 0 }, 1800000000)).toBe(false)
+  })
+
+  it('should flag expired bids in a contract\'s slots without moving them', () => {
+    const bid = { ...bidFrom(TEST_FURNISHER_PUBLIC_KEY), validUntil: 1700003600 }
+    const listed = createEscrowFixture({ bids: [createEmptyBid(), bid, { ...bid, validUntil: 0 }, createEmptyBid()] })
+
+    const { bids } = flagExpiredBids(listed, 1700003601).record
+
+    expect(bids.map(x => x.expired)).toEqual([false, true, false, false])
+    expect(bids[1].bidAmount).toBe(TEST_AMOUNTS.standardBid)
+  })
+
+  it('should keep a bid signed for the contract as it moves on', async () => {
+    const record = offChainBidFromLockingScript('bb'.repeat(32), 1, await lockBid(new MockWallet(TEST_FURNISHER_PRIVATE_KEY), bidFrom(TEST_FURNISHER_PUBLIC_KEY)))
+    const later = createEscrowFixture({
+      txid: 'cc'.repeat(32),
+      workDescription: toByteString(TEST_WORK_DESCRIPTIONS.simple, true),
+      workCompletionDeadline: escrow().record.workCompletionDeadline + 86400
+    })
+    const other = createEscrowFixture({ txid: 'cc'.repeat(32), workDescription: toByteString(TEST_WORK_DESCRIPTIONS.complex, true) })
+
+    expect(offChainBidSigned(later.record, record)).toBe(true)
+    expect(offChainBidSigned(other.record, record)).toBe(false)
+    expect(offChainBidSigned(later.record, { ...record, bid: { ...record.bid, bidAmount: 1 } })).toBe(false)
+  })
+
+  it('should not let a bid be passed off as one on another contract output', async () => {
+    const record = offChainBidFromLockingScript('bb'.repeat(32), 1, await lockBid(new MockWallet(TEST_FURNISHER_PRIVATE_KEY), bidFrom(TEST_FURNISHER_PUBLIC_KEY)))
+
+    expect(offChainBidSigned(escrow().record, record)).toBe(true)
+    expect(offChainBidSigned(escrow().record, { ...record, escrowTxid: 'cc'.repeat(32) })).toBe(false)
+    expect(offChainBidSigned(escrow().record, { ...record, escrowOutputIndex: 1 })).toBe(false)
+  })
+
+  it('should only accept an off-chain bid with an authorization for the contract output', () => {
+    const authorization: BidAcceptanceAuthorization = {
+      txid: escrow().record.txid,
+      outputIndex: escrow().record.outputIndex,
+      acceptedBy: 'seeker',
+      lockTime: 1700000100,
+      furnisherSignature: '30'
+    }
+
+    expect(verifyBidAcceptanceAuthorization(escrow(), 'seeker', authorization)).toBe(authorization)
+    expect(() => verifyBidAcceptanceAuthorization(escrow(), 'seeker')).toThrow('The furnisher must authorize acceptance')
+    expect(() => verifyBidAcceptanceAuthorization(escrow(), 'seeker', { ...authorization, outputIndex: 1 })).toThrow('different contract output')
+    expect(() => verifyBidAcceptanceAuthorization(escrow(), 'platform', authorization)).toThrow('issued for the seeker')
+  })
+})
+
+describe('Seeker Guards', () => {
+  const seeker = new Seeker(TEST_GLOBAL_CONFIG, new MockWallet(TEST_SEEKER_PRIVATE_KEY), ...createMockNetwork())
+  const bid = { ...createEmptyBid(TEST_FURNISHER_PUBLIC_KEY), bidAmount: TEST_AMOUNTS.standardBid }
+  const withBid = (record: Partial<EscrowRecord> = {}): EscrowTX => createEscrowFixture({
+    bids: [bid, createEmptyBid(), createEmptyBid(), createEmptyBid()],
+    ...record
+  })
+
+  it('should only reject bids while the contract is open for bidding', async () => {
+    await expect(seeker.rejectBid(withBid({ status: 'bid-accepted' }), 0)).rejects.toThrow('Cannot reject bid in current state: bid-accepted')
+  })
+
+  it('should leave rejecting bids to the platform when it approves furnishers', async () => {
+    await expect(seeker.rejectBid(withBid({ approvalMode: 'platform' }), 0)).rejects.toThrow('Only the platform may reject bids')
+  })
+
+  it('should not reject a bid that is not there', async () => {
+    await expect(seeker.rejectBid(withBid(), 4)).rejects.toThrow('Invalid bid index: 4')
+    await expect(seeker.rejectBid(withBid(), 1)).rejects.toThrow('Bid slot 1 is already empty')
+  })
+
+  it('should only extend the deadline before work is submitted', async () => {
+    await expect(seeker.extendDeadline(withBid({ status: 'work-submitted' }), 3600)).rejects.toThrow('Cannot extend deadline in current state: work-submitted')
+  })
+
+  it('should only extend the deadline by a positive whole amount', async () => {
+    await expect(seeker.extendDeadline(withBid(), 0)).rejects.toThrow('must be a positive integer')
+    await expect(seeker.extendDeadline(withBid(), 1.5)).rejects.toThrow('must be a positive integer')
+  })
+
+  it('should keep an extended deadline in the contract\'s time unit', async () => {
+    await expect(seeker.extendDeadline(withBid({ delayUnit: 'blocks', workCompletionDeadline: 499999000 }), 1000)).rejects.toThrow('exceed the block height range')
+  })
+
+  it('should not accept bids on a reopened contract until it has a new deadline', async () => {
+    await expect(seeker.acceptBid(withBid({ workCompletionDeadline: 0 }), 0)).rejects.toThrow('set a new deadline with renewDeadline first')
+  })
+
+  it('should only renew the deadline of a reopened contract, and only into the future', async () => {
+    await expect(seeker.renewDeadline(withBid(), 1900000000)).rejects.toThrow('use extendDeadline instead')
+    await expect(seeker.renewDeadline(withBid({ workCompletionDeadline: 0 }), 1600000000)).rejects.toThrow('New deadline must be in the future')
+  })
+})
+
+describe('Furnisher Bid Changes', () => {
+  const furnisherWith = (bidMode: 'off-chain' | 'slots'): Furnisher => {
+    return new Furnisher({ ...TEST_GLOBAL_CONFIG, bidMode }, new MockWallet(TEST_FURNISHER_PRIVATE_KEY), ...createMockNetwork())
+  }
+  const ownBid = { ...createEmptyBid(TEST_FURNISHER_PUBLIC_KEY), bidAmount: TEST_AMOUNTS.standardBid }
+
+  it('should only change bids while the contract is open for bidding', async () => {
+    const escrow = createEscrowFixture({ status: 'work-started' })
+
+    await expect(furnisherWith('off-chain').withdrawBid(escrow)).rejects.toThrow('Cannot change bid in current state: work-started')
+    await expect(furnisherWith('slots').withdrawBid(escrow)).rejects.toThrow('Cannot change bid in current state: work-started')
+    await expect(furnisherWith('slots').amendBid(escrow, 2000, 'New plans', 3600, 0)).rejects.toThrow('Cannot change bid in current state: work-started')
+  })
+
+  it('should not change a bid the furnisher never made', async () => {
+    const escrow = createEscrowFixture()
+
+    await expect(furnisherWith('off-chain').withdrawBid(escrow)).rejects.toThrow('No bid from this furnisher found')
+    await expect(furnisherWith('off-chain').amendBid(escrow, 2000, 'New plans', 3600, 0)).rejects.toThrow('No bid from this furnisher found')
+    await expect(furnisherWith('slots').withdrawBid(escrow)).rejects.toThrow('No bid from this furnisher found')
+  })
+
+  it('should not amend a sealed bid', async () => {
+    const escrow = createEscrowFixture({ sealedBidding: true, bids: [ownBid, createEmptyBid(), createEmptyBid(), createEmptyBid()] })
+
+    await expect(furnisherWith('slots').amendBid(escrow, 2000, 'New plans', 3600, 0)).rejects.toThrow('Sealed bids cannot be amended')
+  })
+
+  it('should place bids in the first open slot of the contract in slots mode', async () => {
+    const wallet = new MockWallet(TEST_FURNISHER_PRIVATE_KEY)
+    const furnisher = new Furnisher({ ...TEST_GLOBAL_CONFIG, bidMode: 'slots' }, wallet, ...createMockNetwork())
+    const otherBid = { ...createEmptyBid(PrivateKey.fromRandom().toPublicKey().toString()), bidAmount: TEST_AMOUNTS.standardBid }
+    const escrow = createEscrowFixture({ bids: [otherBid, createEmptyBid(), createEmptyBid(), createEmptyBid()] })
+    // The next state is worked out on this contract instead of one read back from the compiled script
+    const next = createTestContract()
+    Object.defineProperty(next, 'lockingScript', { value: Script.fromHex('51') })
+    Object.defineProperty(EscrowContract, 'fromLockingScript', { configurable: true, value: () => next })
+    const actions: CreateActionArgs[] = []
+    wallet.createAction = async (args) => {
+      actions.push(args)
+      throw new Error('Stopped before signing')
+    }
+
+    try {
+      await expect(furnisher.placeBid(escrow, 2000, 'My plans', 3600, 0)).rejects.toThrow('Stopped before signing')
+    } finally {
+      Reflect.deleteProperty(EscrowContract, 'fromLockingScript')
+    }
+
+    expect(actions).toHaveLength(1)
+    expect(actions[0].inputs?.[0].outpoint).toBe(`${escrow.record.txid}.0`)
+    expect(actions[0].outputs).toEqual([expect.objectContaining({ satoshis: escrow.satoshis, lockingScript: '51' })])
+    expect(next.bids[1].furnisherKey).toBe(TEST_FURNISHER_PUBLIC_KEY)
+    expect(next.bids[1].bidAmount).toBe(2000n)
+  })
+
+  it('should only authorize acceptance by whoever accepts bids on an open contract', async () => {
+    const furnisher = furnisherWith('off-chain')
+
+    await expect(furnisher.authorizeBidAcceptance(createEscrowFixture({ status: 'bid-accepted' }), 'seeker')).rejects.toThrow('Cannot authorize bid acceptance in current state: bid-accepted')
+    await expect(furnisher.authorizeBidAcceptance(createEscrowFixture({ approvalMode: 'platform' }), 'seeker')).rejects.toThrow('Bids on this contract are accepted by the platform')
+    await expect(furnisher.authorizeBidAcceptance(createEscrowFixture(), 'seeker')).rejects.toThrow('No bid from this furnisher found')
+  })
+})
+
+describe('Contract Lifecycle', () => {
+  const unlockingScript = (index: number): Script => new Script().writeBin([1, 2, 3]).writeNumber(index)
+
+  it('should name the method a spend called', () => {
+    const methods = escrowPublicMethods()
+    expect(spendingMethodFor(unlockingScript(0))).toBe('seekerCancelsBeforeAccept')
+    expect(spendingMethodFor(unlockingScript(methods.indexOf('acceptBidOnChain')))).toBe('acceptBid')
+    expect(spendingMethodFor(unlockingScript(methods.indexOf('resolveDisputeOnChain')))).toBe('resolveDispute')
+  })
+
+  it('should number methods in the order the contract declares them', () => {
+    const methods = escrowPublicMethods()
+    expect(methods.slice(0, 3)).toEqual(['seekerCancelsBeforeAcceptOnChain', 'increaseBountyOnChain', 'seekerExtendsWorkDeadlineOnChain'])
+    expect(spendingMethodFor(unlockingScript(methods.length - 1))).toBe(methods[methods.length - 1].replace(/OnChain$/, ''))
+  })
+
+  it('should not guess at methods it does not know', () => {
+    expect(spendingMethodFor(unlockingScript(escrowPublicMethods().length))).toBeUndefined()
+    expect(spendingMethodFor(new Script())).toBeUndefined()
+  })
+
+  describe('getReopenedContract', () => {
+    const disputed = createEscrowFixture({ status: 'disputed-by-seeker', contractSurvivesAdverseFurnisherDisputeResolution: true })
+    const version = (txid: string, status: EscrowRecord['status'], spendingTxid?: string): EscrowVersionRecord => ({
+      ...createEscrowFixture({ txid, status }).record,
+      spendingTxid
+    })
+    const queries: unknown[] = []
+    const resolver = new MockLookupResolver()
+    resolver.query = async (args) => {
+      queries.push(args.query)
+      return { type: 'output-list', outputs: [] }
+    }
+    const seekerWith = (lifecycle: EscrowVersionRecord[]): Seeker => {
+      const seeker = new Seeker(TEST_GLOBAL_CONFIG, new MockWallet(TEST_SEEKER_PRIVATE_KEY), ...createMockNetwork(undefined, resolver))
+      seeker.getLifecycle = async () => lifecycle
+      return seeker
+    }
+
+    beforeEach(() => { queries.length = 0 })
+
+    it('should follow the lineage to the latest version of the reopened contract', async () => {
+      const seeker = seekerWith([
+        version('aa'.repeat(32), 'disputed-by-seeker', 'bb'.repeat(32)),
+        version('bb'.repeat(32), 'initial', 'cc'.repeat(32)),
+        version('cc'.repeat(32), 'initial')
+      ])
+
+      await seeker.getReopenedContract(disputed)
+
+      expect(queries).toEqual([{ txid: 'cc'.repeat(32), outputIndex: 0 }])
+    })
+
+    it('should find a reopened sealed-bid contract', async () => {
+      const seeker = seekerWith([
+        version('aa'.repeat(32), 'disputed-by-seeker', 'bb'.repeat(32)),
+        version('bb'.repeat(32), 'bids-revealed')
+      ])
+
+      await seeker.getReopenedContract(disputed)
+
+      expect(queries).toEqual([{ txid: 'bb'.repeat(32), outputIndex: 0 }])
+    })
+
+    it('should not find a contract the ruling did not reopen', async () => {
+      const seeker = seekerWith([
+        version('aa'.repeat(32), 'disputed-by-seeker', 'bb'.repeat(32)),
+        version('bb'.repeat(32), 'resolved')
+      ])
+
+      expect(await seeker.getReopenedContract(disputed)).toBeNull()
+      expect(queries).toEqual([])
+    })
+
+    it('should not find a reopened contract before the ruling', async () => {
+      const seeker = seekerWith([version('aa'.repeat(32), 'disputed-by-seeker')])
+
+      expect(await seeker.getReopenedContract(disputed)).toBeNull()
+      expect(queries).toEqual([])
+    })
+  })
+})
+
+describe('Work Specs', () => {
+  const spec: WorkSpec = {
+    version: 1,
+    title: 'Logo design',
+    body: 'A logo for a coffee shop',
+    tags: ['design', 'branding'],
+    category: 'graphics',
+    acceptanceCriteria: ['Vector format', 'Works in one colour'],
+    attachments: [{ name: 'brief.pdf', hash: 'ab'.repeat(32), mediaType: 'application/pdf' }]
+  }
+
+  it('should decode the spec it encoded', () => {
+    expect(decodeWorkSpec(encodeWorkSpec(spec))).toEqual(spec)
+    expect(encodeWorkDescription(spec)).toBe(encodeWorkSpec(spec))
+  })
+
+  it('should carry plain text descriptions as UTF-8', () => {
+    const description = encodeWorkDescription('Fix the login page')
+
+    expect(description).toBe(toByteString('Fix the login page', true))
+    expect(decodeWorkSpec(description)).toBeUndefined()
+    expect(workDescriptionText(description)).toBe('Fix the login page')
+  })
+
+  it('should not decode a version it does not understand', () => {
+    expect(decodeWorkSpec(toByteString(JSON.stringify({ ...spec, version: 2 }), true))).toBeUndefined()
+  })
+
+  it('should reject malformed specs', () => {
+    expect(() => encodeWorkSpec({ ...spec, title: '' })).toThrow('title must be')
+    expect(() => encodeWorkSpec({ ...spec, attachments: [{ name: 'brief.pdf', hash: 'not a hash' }] })).toThrow('each attachment')
+  })
+
+  it('should give the readable text of a spec', () => {
+    expect(workDescriptionText(encodeWorkSpec(spec))).toBe(
+      'Logo design\nA logo for a coffee shop\ndesign\nbranding\ngraphics\nVector format\nWorks in one colour'
+    )
+  })
+})
+
+describe('Off-chain Content', () => {
+  let directory: string
+  let store: FileSystemContentStore
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'escrow-content-'))
+    store = new FileSystemContentStore(directory)
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should keep only a commitment in the contract', async () => {
+    const description = encodeWorkDescription('A long description of the work')
+    const commitment = await commitContent(store, description)
+    const committed = encodeWorkDescription(commitment)
+
+    expect(decodeContentCommitment(committed)).toEqual(commitment)
+    expect(decodeContentCommitment(description)).toBeUndefined()
+    expect(await resolveContent(committed, store)).toBe(description)
+    expect(await resolveContent(description)).toBe(description)
+  })
+
+  it('should surface the work spec behind a commitment', async () => {
+    const spec: WorkSpec = { version: 1, title: 'Logo design', body: '', tags: [], acceptanceCriteria: [], attachments: [] }
+    const commitment = await commitContent(store, encodeWorkSpec(spec))
+    const escrow = createEscrowFixture({ workDescription: encodeWorkDescription(commitment) })
+
+    const resolved = await resolveEscrowContent(escrow, store)
+
+    expect(resolved.record.workSpec).toEqual(spec)
+    expect(resolved.record.content?.workDescription).toBe(encodeWorkSpec(spec))
+  })
+
+  it('should reject content that does not match its commitment', async () => {
+    const commitment = await commitContent(store, encodeWorkDescription('The real description'))
+    await writeFile(join(directory, commitment.sha256), 'Something else')
+
+    await expect(resolveContent(encodeWorkDescription(commitment), store)).rejects.toThrow('does not match its hash')
+  })
+
+  it('should need a store to resolve a commitment', async () => {
+    const commitment = await commitContent(store, encodeWorkDescription('Kept off-chain'))
+
+    await expect(resolveContent(encodeWorkDescription(commitment))).rejects.toThrow('no content store')
+  })
+})
+
+describe('Escrow Queries', () => {
+  it('should accept a structured query', () => {
+    const query = {
+      status: ['initial', 'bids-revealed'],
+      contractType: 'bid',
+      bounty: { min: 1000 },
+      deadline: { min: 100, max: 200 },
+      seekerKey: TEST_SEEKER_PUBLIC_KEY,
+      sort: { by: 'bounty', direction: 'desc' },
+      cursor: { txid: 'aa'.repeat(32), outputIndex: 0 },
+      limit: 20
+    }
+
+    expect(parseEscrowQuery(query)).toEqual(query)
+  })
+
+  it('should reject fields it does not know', () => {
+    expect(() => parseEscrowQuery({ seekerKey: TEST_SEEKER_PUBLIC_KEY, find: 'all-open' })).toThrow('unknown field find')
+  })
+
+  it('should reject malformed values', () => {
+    expect(() => parseEscrowQuery({ status: ['open'] })).toThrow('status must be one of')
+    expect(() => parseEscrowQuery({ bounty: { min: 5, max: 1 } })).toThrow('min must not exceed max')
+    expect(() => parseEscrowQuery({ deadline: { min: '100' } })).toThrow('bounds must be finite numbers')
+    expect(() => parseEscrowQuery({ furnisherKey: 'not a key' })).toThrow('compressed public key')
+    expect(() => parseEscrowQuery({ sort: { by: 'status' } })).toThrow('sort.by must be one of')
+    expect(() => parseEscrowQuery({ cursor: { txid: 'aa' } })).toThrow('cursor must be')
+    expect(() => parseEscrowQuery({ limit: 0 })).toThrow('limit must be')
+  })
+
+  it('should page past contracts indexed without their bounty', async () => {
+    const searches: Array<Filter<Document>> = []
+    const cursor = { sort: () => cursor, project: () => cursor, toArray: async () => [] }
+    const collection = {
+      createIndex: async () => 'index',
+      findOne: async () => createEscrowFixture().record,
+      find: (filter: Filter<Document>) => {
+        searches.push(filter)
+        return cursor
+      }
+    }
+    const storage = new EscrowStorage({ collection: () => collection } as unknown as Db)
+    const after = { txid: 'aa'.repeat(32), outputIndex: 0 }
+
+    await storage.findContracts({ sort: { by: 'bounty' }, cursor: after })
+    await storage.findContracts({ sort: { by: 'bounty', direction: 'desc' }, cursor: after })
+
+    expect(searches[0].$or).toEqual([
+      { satoshis: { $ne: null } },
+      { satoshis: null, txid: { $gt: after.txid } },
+      { satoshis: null, txid: after.txid, outputIndex: { $gt: 0 } }
+    ])
+    expect(searches[1].$or).toEqual([
+      { satoshis: { $in: [] } },
+      { satoshis: null, txid: { $gt: after.txid } },
+      { satoshis: null, txid: after.txid, outputIndex: { $gt: 0 } }
+    ])
+  })
+})
+
+describe('Bounty Top-ups', () => {
+  const platform = new Platform(TEST_GLOBAL_CONFIG, new MockWallet(TEST_PLATFORM_PRIVATE_KEY), ...createMockNetwork())
+  const topUp = (record: Partial<EscrowRecord>): EscrowTX => createEscrowFixture({
+    contractType: 'bounty',
+    bountyIncreaseAllowanceMode: 'by-platform',
+    bountyIncreaseCutoffPoint: 'start-of-work',
+    ...record
+  })
+
+  it('should only let the contract\'s platform increase its bounty', async () => {
+    await expect(platform.increaseBounty(topUp({ platformKey: TEST_SEEKER_PUBLIC_KEY }), 1000)).rejects.toThrow('Platform key mismatch')
+  })
+
+  it('should not increase the amount of a bid contract', async () => {
+    await expect(platform.increaseBounty(topUp({ contractType: 'bid' }), 1000)).rejects.toThrow('Only bounties can be increased')
+  })
+
+  it('should not increase a bounty past its cutoff point', async () => {
+    await expect(platform.increaseBounty(topUp({ status: 'work-started' }), 1000)).rejects.toThrow('Cannot increase bounty in current state: work-started')
+  })
+
+  it('should find contributions on every version of the contract', async () => {
+    // Two versions, the second created by a payout that must not move the contribution
+    const history = [
+      { txid: 'aa'.repeat(32), outputIndex: 0, spendingTxid: 'cc'.repeat(32) },
+      { txid: 'cc'.repeat(32), outputIndex: 0, previous: { txid: 'aa'.repeat(32), outputIndex: 0 } }
+    ]
+    const contributionSearches: Array<Filter<Document>> = []
+    const matches = (filter: Filter<Document>) => (x: Document): boolean => Object.entries(filter).every(([key, value]) => x[key] === value)
+    const collections: Record<string, unknown> = {
+      EscrowHistory: { findOne: async (filter: Filter<Document>) => history.find(matches(filter)) ?? null },
+      EscrowContributions: {
+        find: (filter: Filter<Document>) => {
+          contributionSearches.push(filter)
+          const cursor = { project: () => cursor, toArray: async () => [{ txid: 'bb'.repeat(32), outputIndex: 1 }] }
+          return cursor
+        }
+      }
+    }
+    const service = createEscrowLookupService({ collection: (name: string) => collections[name] } as unknown as Db)
+
+    const answer = await service.lookup({
+      service: 'ls_escrow',
+      query: { find: 'contributions', txid: 'cc'.repeat(32), outputIndex: 0 }
+    })
+
+    expect(answer).toEqual([{ txid: 'bb'.repeat(32), outputIndex: 1 }])
+    expect(contributionSearches[0]).toEqual({
+      $or: [
+        { escrowTxid: 'aa'.repeat(32), escrowOutputIndex: 0 },
+        { escrowTxid: 'cc'.repeat(32), escrowOutputIndex: 0 }
+      ]
+    })
+  })
+})
+
+describe('Work Search', () => {
+  // Just enough of a Mongo collection to see the queries the lookup service makes
+  interface FakeCursor {
+    project: () => FakeCursor
+    sort: () => FakeCursor
+    limit: () => FakeCursor
+    toArray: () => Promise<UTXOReference[]>
+  }
+  const searches: Array<Filter<Document>> = []
+  const collection = {
+    createIndex: async () => 'index',
+    find: (filter: Filter<Document>): FakeCursor => {
+      searches.push(filter)
+      const cursor: FakeCursor = {
+        project: () => cursor,
+        sort: () => cursor,
+        limit: () => cursor,
+        toArray: async () => [{ txid: 'aa'.repeat(32), outputIndex: 0 }]
+      }
+      return cursor
+    }
+  }
+  const service = createEscrowLookupService({ collection: () => collection } as unknown as Db)
+
+  beforeEach(() => { searches.length = 0 })
+
+  it('should search the text index within the filters given', async () => {
+    const answer = await service.lookup({
+      service: 'ls_escrow',
+      query: { find: 'search', terms: 'logo design', contractType: 'bid', globalConfig: TEST_GLOBAL_CONFIG }
+    })
+
+    expect(answer).toEqual([{ txid: 'aa'.repeat(32), outputIndex: 0 }])
+    expect(searches[0]).toEqual({
+      contractType: 'bid',
+      platformKey: TEST_GLOBAL_CONFIG.platformKey,
+      $text: { $search: 'logo design' }
+    })
+  })
+
+  it('should index the plans of off-chain bids with the contract they were made on', async () => {
+    const bids: OffChainBidRecord[] = []
+    const updates: Document[] = []
+    const collections: Record<string, unknown> = {
+      EscrowBids: {
+        insertOne: async (bid: OffChainBidRecord) => { bids.push(bid) },
+        find: () => ({ toArray: async () => bids })
+      },
+      EscrowHistory: { findOne: async () => null },
+      EscrowRecords: {
+        findOne: async () => createEscrowFixture().record,
+        updateOne: async (_filter: Document, update: Document) => { updates.push(update) }
+      }
+    }
+    const storage = new EscrowStorage({ collection: (name: string) => collections[name] } as unknown as Db)
+    const bid = { ...createEmptyBid(TEST_FURNISHER_PUBLIC_KEY), plans: toByteString('Rust backend, then a logo', true) }
+
+    await storage.storeBid({ txid: 'bb'.repeat(32), outputIndex: 0, escrowTxid: 'aa'.repeat(32), escrowOutputIndex: 0, bid, signature: '' })
+
+    expect(updates).toEqual([{ $set: { plansText: 'Rust backend, then a logo' } }])
+  })
+
+  it('should require something to search for', async () => {
+    await expect(service.lookup({ service: 'ls_escrow', query: { find: 'search', terms: ' ' } })).rejects.toThrow('requires terms')
+  })
+
+  it('should not page search results by cursor', async () => {
+    await expect(service.lookup({
+      service: 'ls_escrow',
+      query: { find: 'search', terms: 'rust', cursor: { txid: 'aa'.repeat(32), outputIndex: 0 } }
+    })).rejects.toThrow('ordered by relevance')
+  })
+})
+
+describe('Contributions', () => {
+  const escrow = createEscrowFixture()
+
+  it('should decode a contribution signed by its backer', async () => {
+    const wallet = new MockWallet(TEST_FURNISHER_PRIVATE_KEY)
+    const script = await new PushDrop(wallet).lock(
+      [contributionPayload(escrow, TEST_FURNISHER_PUBLIC_KEY, 5000)],
+      TEST_GLOBAL_CONFIG.keyDerivationProtocol, '1', 'self', true, true
+    )
+
+    const record = contributionFromLockingScript('bb'.repeat(32), 1, script)
+
+    expect(record.escrowTxid).toBe('aa'.repeat(32))
+    expect(record.escrowOutputIndex).toBe(0)
+    expect(record.backerKey).toBe(TEST_FURNISHER_PUBLIC_KEY)
+    expect(record.amount).toBe(5000)
+  })
+
+  it('should reject a contribution claiming to be from someone else', async () => {
+    const wallet = new MockWallet(TEST_FURNISHER_PRIVATE_KEY)
+    const script = await new PushDrop(wallet).lock(
+      [contributionPayload(escrow, TEST_SEEKER_PRIVATE_KEY.toPublicKey().toString(), 5000)],
+      TEST_GLOBAL_CONFIG.keyDerivationProtocol, '1', 'self', true, true
+    )
+
+    expect(() => contributionFromLockingScript('bb'.repeat(32), 1, script)).toThrow()
+  })
+})
+
+describe('Contract Methods', () => {
+  // Block heights keep lock times and bid terms apart from the second-based test config
+  const HEIGHT = 800000
+  const config: GlobalConfig = {
+    ...TEST_GLOBAL_CONFIG,
+    delayUnit: 'blocks',
+    maxWorkStartDelay: 144,
+    maxWorkApprovalDelay: 144,
+    abandonedWorkGracePeriod: 144,
+    evidencePeriod: 144
+  }
+  const seekerSig = contractSig(TEST_SEEKER_PRIVATE_KEY)
+  const furnisherSig = contractSig(TEST_FURNISHER_PRIVATE_KEY)
+  const platformSig = contractSig(TEST_PLATFORM_PRIVATE_KEY)
+  const outsiderKey = PrivateKey.fromRandom()
+  const evidenceHash = toByteString('ee'.repeat(32))
+
+  const contract = (overrides: Partial<GlobalConfig> = {}, options: TestContractOptions = {}): EscrowContract => createTestContract({
+    config: { ...config, ...overrides },
+    workCompletionDeadline: HEIGHT + 1000,
+    ...options
+  })
+  const bid = (terms: Partial<ContractBid> = {}): ContractBid => ({
+    furnisherKey: PubKey(toByteString(TEST_FURNISHER_PUBLIC_KEY)),
+    plans: toByteString('Build it in Rust', true),
+    bidAmount: 5000n,
+    bond: 0n,
+    timeOfBid: BigInt(HEIGHT),
+    timeRequired: 100n,
+    validUntil: 0n,
+    ...terms
+  })
+  // Puts the test furnisher's accepted bid in slot 0 and moves the contract to the given status
+  const withAcceptedBid = (escrow: EscrowContract, status: bigint): EscrowContract => {
+    escrow.bids[0] = bid()
+    escrow.acceptedBid = escrow.bids[0]
+    escrow.bidAcceptedBy = EscrowContract.BID_ACCEPTED_BY_SEEKER
+    escrow.status = status
+    return escrow
+  }
+  const fee = (amount: bigint): ByteString => paymentOutput(TEST_PLATFORM_PUBLIC_KEY, amount * BigInt(config.escrowServiceFeeBasisPoints) / 10000n)
+
+  describe('Fee claims', () => {
+    it('should let the furnisher claim once the platform fee is paid', () => {
+      const escrow = withAcceptedBid(contract(), EscrowContract.STATUS_RESOLVED)
+      spendContract(escrow, { value: 10000n, lockTime: HEIGHT, outputs: fee(10000n) })
+
+      expect(() => escrow.furnisherClaimsPaymentWithFeeOnChain(furnisherSig)).not.toThrow()
+    })
+
+    it('should refuse a claim that pays the platform less than its fee', () => {
+      const escrow = withAcceptedBid(contract(), EscrowContract.STATUS_RESOLVED)
+      spendContract(escrow, { value: 10000n, lockTime: HEIGHT, outputs: paymentOutput(TEST_PLATFORM_PUBLIC_KEY, 249n) })
+
+      expect(() => escrow.furnisherClaimsPaymentWithFeeOnChain(furnisherSig)).toThrow('First output must pay the platform fee')
+    })
+
+    it('should only let the accepted furnisher claim', () => {
+      const escrow = withAcceptedBid(contract(), EscrowContract.STATUS_RESOLVED)
+      spendContract(escrow, { value: 10000n, lockTime: HEIGHT, outputs: fee(10000n) })
+
+      expect(() => escrow.furnisherClaimsPaymentWithFeeOnChain(contractSig(outsiderKey))).toThrow('Only the accepted furnisher may claim payment')
+    })
+
+    it('should only allow a claim without a fee output when no fee is owed', () => {
+      const owed = withAcceptedBid(contract(), EscrowContract.STATUS_RESOLVED)
+      spendContract(owed, { value: 10000n, lockTime: HEIGHT })
+      const free = withAcceptedBid(contract({ escrowServiceFeeBasisPoints: 0 }), EscrowContract.STATUS_RESOLVED)
+      spendContract(free, { value: 10000n, lockTime: HEIGHT })
+
+      expect(() => owed.furnisherClaimsPaymentOnChain(furnisherSig)).toThrow('A platform fee is owed')
+      expect(() => free.furnisherClaimsPaymentOnChain(furnisherSig)).not.toThrow()
+    })
+  })
+
+  describe('Approval timeout', () => {
+    const submitted = (approvalTimeoutReleasesPayment: boolean): EscrowContract => {
+      const escrow = withAcceptedBid(contract({ approvalTimeoutReleasesPayment }), EscrowContract.STATUS_WORK_SUBMITTED)
+      escrow.workCompletionTime = BigInt(HEIGHT)
+      return escrow
+    }
+
+    it('should release payment once the seeker has had their approval period', () => {
+      const escrow = submitted(true)
+      spendContract(escrow, { value: 10000n, lockTime: HEIGHT + 145, outputs: fee(10000n) })
+
+      expect(() => escrow.furnisherClaimsAfterApprovalTimeoutOnChain(furnisherSig)).not.toThrow()
+    })
+
+    it('should not release payment while the seeker can still approve', () => {
+      const escrow = submitted(true)
+      spendContract(escrow, { value: 10000n, lockTime: HEIGHT + 144, outputs: fee(10000n) })
+
+      expect(() => escrow.furnisherClaimsAfterApprovalTimeoutOnChain(furnisherSig)).toThrow('Execution failed')
+    })
+
+    it('should not release payment on contracts that do not allow it', () => {
+      const escrow = submitted(false)
+      spendContract(escrow, { value: 10000n, lockTime: HEIGHT + 145, outputs: fee(10000n) })
+
+      expect(() => escrow.furnisherClaimsAfterApprovalTimeoutOnChain(furnisherSig)).toThrow('Payment is not released on approval timeout')
+    })
+  })
+
+  describe('Rulings', () => {
+    const disputed = (overrides: Partial<GlobalConfig> = {}, options: TestContractOptions = {}): EscrowContract => {
+      const escrow = withAcceptedBid(contract(overrides, options), EscrowContract.STATUS_DISPUTED_BY_SEEKER)
+      escrow.disputeTime = BigInt(HEIGHT)
+      escrow.seekerEvidenceHash = evidenceHash
+      escrow.furnisherEvidenceHash = evidenceHash
+      return escrow
+    }
+    const rule = (escrow: EscrowContract, amountForSeeker: bigint, amountForFurnisher: bigint): void => {
+      escrow.resolveDisputeOnChain(1n, amountForSeeker, amountForFurnisher, toByteString(''), platformSig, seekerSig, furnisherSig, noPanelSignatures())
+    }
+
+    it('should pay the platform fee on a final platform ruling', () => {
+      const escrow = disputed()
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT, outputs: paymentOutput(TEST_FURNISHER_PUBLIC_KEY, 4875n) + fee(5000n) })
+
+      expect(() => rule(escrow, 0n, 4875n)).not.toThrow()
+    })
+
+    it('should refuse a platform ruling that leaves out the fee', () => {
+      const escrow = disputed()
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT, outputs: paymentOutput(TEST_FURNISHER_PUBLIC_KEY, 4875n) })
+
+      expect(() => rule(escrow, 0n, 4875n)).toThrow('Execution failed')
+    })
+
+    it('should settle a mutual resolution without a fee', () => {
+      const escrow = disputed()
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT, outputs: paymentOutput(TEST_SEEKER_PUBLIC_KEY, 2500n) + paymentOutput(TEST_FURNISHER_PUBLIC_KEY, 2500n) })
+
+      expect(() => escrow.resolveDisputeOnChain(0n, 2500n, 2500n, toByteString(''), platformSig, seekerSig, furnisherSig, noPanelSignatures())).not.toThrow()
+    })
+
+    it('should reopen a surviving contract for bidding and clear its deadline', () => {
+      const escrow = disputed({ contractSurvivesAdverseFurnisherDisputeResolution: true })
+      spendContract(escrow, {
+        value: 5000n,
+        lockTime: HEIGHT,
+        outputs: stateOutput(1n) + paymentOutput(TEST_SEEKER_PUBLIC_KEY, 4874n) + fee(5000n)
+      })
+
+      rule(escrow, 4875n, 0n)
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_INITIAL)
+      expect(escrow.workCompletionDeadline).toBe(0n)
+      expect(escrow.bids[0].furnisherKey).toBe(escrow.seekerKey)
+      expect(escrow.acceptedBid.furnisherKey).toBe(escrow.seekerKey)
+      expect(escrow.bidAcceptedBy).toBe(EscrowContract.BID_NOT_YET_ACCEPTED)
+      expect(escrow.seekerEvidenceHash).toBe('')
+    })
+
+    it('should reopen a sealed-bid contract into its open status', () => {
+      const escrow = disputed(
+        { contractSurvivesAdverseFurnisherDisputeResolution: true },
+        { sealedBidding: { commitDeadline: HEIGHT - 200, revealDeadline: HEIGHT - 100 } }
+      )
+      spendContract(escrow, {
+        value: 5000n,
+        lockTime: HEIGHT,
+        outputs: stateOutput(1n) + paymentOutput(TEST_SEEKER_PUBLIC_KEY, 4874n) + fee(5000n)
+      })
+
+      rule(escrow, 4875n, 0n)
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_BIDS_REVEALED)
+    })
+
+    it('should refuse to reopen a contract without keeping it funded', () => {
+      const escrow = disputed({ contractSurvivesAdverseFurnisherDisputeResolution: true })
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT, outputs: paymentOutput(TEST_SEEKER_PUBLIC_KEY, 4875n) + fee(5000n) })
+
+      expect(() => rule(escrow, 4875n, 0n)).toThrow('Execution failed')
+    })
+
+    it('should wait out the evidence period until both sides have submitted', () => {
+      const escrow = disputed()
+      escrow.furnisherEvidenceHash = toByteString('')
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT + 144, outputs: paymentOutput(TEST_FURNISHER_PUBLIC_KEY, 4875n) + fee(5000n) })
+
+      expect(() => rule(escrow, 0n, 4875n)).toThrow('Evidence period has not ended')
+    })
+  })
+
+  describe('Appeals', () => {
+    const appealable = (status: bigint = EscrowContract.STATUS_PROVISIONALLY_RESOLVED): EscrowContract => {
+      const escrow = withAcceptedBid(contract({
+        contractSurvivesAdverseFurnisherDisputeResolution: true,
+        appeals: { arbiterKey: TEST_PLATFORM_PUBLIC_KEY, period: 144 }
+      }), status)
+      escrow.rulingTime = BigInt(HEIGHT)
+      escrow.rulingAmountForSeeker = 4875n
+      escrow.rulingAmountForFurnisher = 0n
+      return escrow
+    }
+
+    it('should take an appeal within the appeal period', () => {
+      const escrow = appealable()
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT + 144, outputs: stateOutput(5000n) })
+
+      escrow.seekerAppealsOnChain(seekerSig)
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_APPEALED_BY_SEEKER)
+    })
+
+    it('should refuse an appeal after the appeal period', () => {
+      const escrow = appealable()
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT + 145, outputs: stateOutput(5000n) })
+
+      expect(() => escrow.furnisherAppealsOnChain(furnisherSig)).toThrow('Appeal period has ended')
+    })
+
+    it('should finalize an unappealed ruling with the platform fee', () => {
+      const escrow = appealable()
+      spendContract(escrow, {
+        value: 5000n,
+        lockTime: HEIGHT + 145,
+        outputs: stateOutput(1n) + paymentOutput(TEST_SEEKER_PUBLIC_KEY, 4874n) + fee(5000n)
+      })
+
+      escrow.finalizeRulingOnChain(toByteString(''))
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_INITIAL)
+      expect(escrow.workCompletionDeadline).toBe(0n)
+    })
+
+    it('should not finalize a ruling that can still be appealed', () => {
+      const escrow = appealable()
+      spendContract(escrow, {
+        value: 5000n,
+        lockTime: HEIGHT + 144,
+        outputs: stateOutput(1n) + paymentOutput(TEST_SEEKER_PUBLIC_KEY, 4874n) + fee(5000n)
+      })
+
+      expect(() => escrow.finalizeRulingOnChain(toByteString(''))).toThrow('Appeal period has not ended')
+    })
+
+    it('should only take a decision on an appeal from the appeal arbiter', () => {
+      const outputs = paymentOutput(TEST_FURNISHER_PUBLIC_KEY, 4875n) + fee(5000n)
+      const decided = appealable(EscrowContract.STATUS_APPEALED_BY_SEEKER)
+      spendContract(decided, { value: 5000n, lockTime: HEIGHT + 200, outputs })
+      const forged = appealable(EscrowContract.STATUS_APPEALED_BY_SEEKER)
+      spendContract(forged, { value: 5000n, lockTime: HEIGHT + 200, outputs })
+
+      expect(() => decided.resolveAppealOnChain(0n, 4875n, toByteString(''), platformSig)).not.toThrow()
+      expect(() => forged.resolveAppealOnChain(0n, 4875n, toByteString(''), contractSig(outsiderKey))).toThrow('Execution failed')
+    })
+  })
+
+  describe('Milestones', () => {
+    const milestones = [{ amount: 2000, deadline: HEIGHT + 500 }, { amount: 3000, deadline: HEIGHT + 1000 }]
+    const inWork = (status: bigint): EscrowContract => withAcceptedBid(contract({}, { milestones }), status)
+
+    it('should take a milestone submission', () => {
+      const escrow = inWork(EscrowContract.STATUS_WORK_STARTED)
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT + 10, outputs: stateOutput(5000n) })
+
+      escrow.furnisherSubmitsMilestoneOnChain(furnisherSig, toByteString('Part one', true))
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_WORK_SUBMITTED)
+      expect(escrow.workCompletionTime).toBe(BigInt(HEIGHT + 10))
+    })
+
+    it('should refuse milestone submissions on contracts without milestones', () => {
+      const escrow = withAcceptedBid(contract(), EscrowContract.STATUS_WORK_STARTED)
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT + 10, outputs: stateOutput(5000n) })
+
+      expect(() => escrow.furnisherSubmitsMilestoneOnChain(furnisherSig, toByteString('Part one', true))).toThrow('This contract has no milestones')
+    })
+
+    it('should release a milestone less the platform fee and carry on', () => {
+      const escrow = inWork(EscrowContract.STATUS_WORK_SUBMITTED)
+      spendContract(escrow, {
+        value: 5000n,
+        lockTime: HEIGHT + 20,
+        outputs: stateOutput(3000n) + paymentOutput(TEST_FURNISHER_PUBLIC_KEY, 1950n) + fee(2000n)
+      })
+
+      escrow.seekerApprovesMilestoneOnChain(seekerSig, toByteString(''))
+
+      expect(escrow.milestonesReleased).toBe(1n)
+      expect(escrow.status).toBe(EscrowContract.STATUS_WORK_STARTED)
+    })
+
+    it('should refuse a milestone release that leaves out the fee', () => {
+      const escrow = inWork(EscrowContract.STATUS_WORK_SUBMITTED)
+      spendContract(escrow, {
+        value: 5000n,
+        lockTime: HEIGHT + 20,
+        outputs: stateOutput(3000n) + paymentOutput(TEST_FURNISHER_PUBLIC_KEY, 1950n)
+      })
+
+      expect(() => escrow.seekerApprovesMilestoneOnChain(seekerSig, toByteString(''))).toThrow('Execution failed')
+    })
+
+    it('should resolve the contract on the last milestone', () => {
+      const escrow = inWork(EscrowContract.STATUS_WORK_SUBMITTED)
+      escrow.milestonesReleased = 1n
+      spendContract(escrow, { value: 3000n, lockTime: HEIGHT + 30, outputs: stateOutput(3000n) })
+
+      escrow.seekerApprovesMilestoneOnChain(seekerSig, toByteString(''))
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_RESOLVED)
+    })
+  })
+
+  describe('Allow-lists', () => {
+    const outsider = outsiderKey.toPublicKey().toString()
+    const place = (escrow: EscrowContract, sig: Sig, placed: ContractBid, proof?: AllowListProof): void => {
+      spendContract(escrow, { value: 1n, lockTime: HEIGHT, outputs: stateOutput(1n) })
+      escrow.furnisherPlacesBidOnChain(sig, placed, 0n, ...allowListProofParams(proof))
+    }
+
+    it('should take bids from furnishers on an inline list', () => {
+      const escrow = contract({}, { allowList: { furnisherKeys: [TEST_FURNISHER_PUBLIC_KEY], commitment: 'inline' } })
+
+      place(escrow, furnisherSig, bid())
+
+      expect(escrow.bids[0].furnisherKey).toBe(TEST_FURNISHER_PUBLIC_KEY)
+    })
+
+    it('should refuse bids from furnishers left off an inline list', () => {
+      const escrow = contract({}, { allowList: { furnisherKeys: [TEST_FURNISHER_PUBLIC_KEY], commitment: 'inline' } })
+
+      expect(() => place(escrow, contractSig(outsiderKey), bid({ furnisherKey: PubKey(toByteString(outsider)) }))).toThrow('Furnisher is not on the allow-list')
+    })
+
+    it('should take bids with a Merkle proof and refuse a proof for another position', () => {
+      const furnisherKeys = [0, 1, 2, 3].map(() => PrivateKey.fromRandom().toPublicKey().toString()).concat(TEST_FURNISHER_PUBLIC_KEY)
+      const proof = allowListProofFor(furnisherKeys, TEST_FURNISHER_PUBLIC_KEY)
+      const listed = contract({}, { allowList: { furnisherKeys, commitment: 'merkle' } })
+      const misplaced = contract({}, { allowList: { furnisherKeys, commitment: 'merkle' } })
+
+      expect(() => place(listed, furnisherSig, bid(), proof)).not.toThrow()
+      expect(() => place(misplaced, furnisherSig, bid(), { ...proof, index: proof.index - 1 })).toThrow('Furnisher is not on the allow-list')
+    })
+  })
+
+  describe('Sealed bids', () => {
+    const sealedBidding = { commitDeadline: HEIGHT + 100, revealDeadline: HEIGHT + 200 }
+    const salt = '11'.repeat(32)
+    const sealed: Bid = {
+      furnisherKey: TEST_FURNISHER_PUBLIC_KEY,
+      plans: toByteString('Build it in Rust', true),
+      bidAmount: 5000,
+      bond: 0,
+      timeOfBid: HEIGHT + 10,
+      timeRequired: 100,
+      validUntil: HEIGHT + 500
+    }
+    const commit = (escrow: EscrowContract, lockTime: number): void => {
+      spendContract(escrow, { value: 1n, lockTime, outputs: stateOutput(1n) })
+      escrow.furnisherCommitsBidOnChain(furnisherSig, PubKey(toByteString(TEST_FURNISHER_PUBLIC_KEY)), toByteString(bidCommitmentFor(sealed, salt)), 0n, ...allowListProofParams())
+    }
+    const committed = (): EscrowContract => {
+      const escrow = contract({}, { sealedBidding })
+      commit(escrow, HEIGHT + 10)
+      return escrow
+    }
+    const reveal = (escrow: EscrowContract, revealed: Bid): void => {
+      spendContract(escrow, { value: 1n, lockTime: HEIGHT + 150, outputs: stateOutput(1n) })
+      escrow.furnisherRevealsBidOnChain(furnisherSig, contractBidFromRecord(revealed), toByteString(salt), 0n)
+    }
+
+    it('should take a commitment while bidding is open', () => {
+      const escrow = committed()
+
+      expect(escrow.bids[0].furnisherKey).toBe(TEST_FURNISHER_PUBLIC_KEY)
+      expect(escrow.bids[0].timeOfBid).toBe(BigInt(HEIGHT + 10))
+      expect(escrow.bidCommitments[0]).toBe(bidCommitmentFor(sealed, salt))
+    })
+
+    it('should refuse a commitment once bidding has closed', () => {
+      expect(() => commit(contract({}, { sealedBidding }), HEIGHT + 101)).toThrow('Bidding has closed')
+    })
+
+    it('should reveal a bid that matches its commitment', () => {
+      const escrow = committed()
+
+      reveal(escrow, sealed)
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_REVEALING_BIDS)
+      expect(escrow.bids[0].bidAmount).toBe(5000n)
+      expect(escrow.bids[0].validUntil).toBe(BigInt(HEIGHT + 500))
+      expect(escrow.bidCommitments[0]).toBe('')
+    })
+
+    it('should refuse a reveal that changes the bid expiry', () => {
+      expect(() => reveal(committed(), { ...sealed, validUntil: HEIGHT + 900 })).toThrow('Bid does not match its commitment')
+    })
+
+    it('should discard unrevealed bids when bidding is closed', () => {
+      const escrow = committed()
+      spendContract(escrow, { value: 1n, lockTime: HEIGHT + 201, outputs: stateOutput(1n) })
+
+      escrow.closeSealedBiddingOnChain()
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_BIDS_REVEALED)
+      expect(escrow.bids[0].furnisherKey).toBe(escrow.seekerKey)
+      expect(escrow.bidCommitments[0]).toBe('')
+    })
+
+    it('should not close bidding before the reveal period ends', () => {
+      const escrow = committed()
+      spendContract(escrow, { value: 1n, lockTime: HEIGHT + 200, outputs: stateOutput(1n) })
+
+      expect(() => escrow.closeSealedBiddingOnChain()).toThrow('Reveal period has not ended')
+    })
+  })
+
+  describe('Bid expiry', () => {
+    const expiring = bid({ validUntil: BigInt(HEIGHT + 50) })
+    const acceptInSlot = (lockTime: number): EscrowContract => {
+      const escrow = contract()
+      escrow.bids[0] = expiring
+      spendContract(escrow, { value: 1n, lockTime, outputs: stateOutput(5000n) })
+      escrow.acceptBidOnChain(EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER, seekerSig, 0n)
+      return escrow
+    }
+    const acceptOffChain = (lockTime: number, signedBy: Sig = furnisherSig): EscrowContract => {
+      const escrow = contract()
+      spendContract(escrow, { value: 1n, lockTime, outputs: stateOutput(5000n) })
+      escrow.acceptOffChainBidOnChain(EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER, seekerSig, expiring, signedBy, ...allowListProofParams())
+      return escrow
+    }
+
+    it('should accept a bid from a slot until it expires', () => {
+      const escrow = acceptInSlot(HEIGHT + 50)
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_BID_ACCEPTED)
+      expect(escrow.acceptedBid).toEqual(expiring)
+      expect(escrow.bidAcceptedBy).toBe(EscrowContract.BID_ACCEPTED_BY_SEEKER)
+    })
+
+    it('should refuse a bid from a slot after it expires', () => {
+      expect(() => acceptInSlot(HEIGHT + 51)).toThrow('Bid has expired')
+    })
+
+    it('should accept an off-chain bid that its furnisher signed for', () => {
+      const escrow = acceptOffChain(HEIGHT + 50)
+
+      expect(escrow.status).toBe(EscrowContract.STATUS_BID_ACCEPTED)
+      expect(escrow.acceptedBid).toEqual(expiring)
+    })
+
+    it('should refuse an off-chain bid without its furnisher\'s signature', () => {
+      expect(() => acceptOffChain(HEIGHT + 50, contractSig(outsiderKey))).toThrow('Furnisher must sign to have their bid accepted')
+    })
+
+    it('should refuse an off-chain bid after it expires', () => {
+      expect(() => acceptOffChain(HEIGHT + 51)).toThrow('Bid has expired')
+    })
+  })
+
+  describe('Bid changes', () => {
+    const withBid = (overrides: Partial<GlobalConfig> = {}, options: TestContractOptions = {}): EscrowContract => {
+      const escrow = contract(overrides, options)
+      escrow.bids[0] = bid()
+      spendContract(escrow, { value: 1n, lockTime: HEIGHT, outputs: stateOutput(1n) })
+      return escrow
+    }
+
+    it('should let a furnisher withdraw their own bid', () => {
+      const escrow = withBid()
+
+      escrow.furnisherWithdrawsBidOnChain(furnisherSig, 0n)
+
+      expect(escrow.bids[0].furnisherKey).toBe(escrow.seekerKey)
+    })
+
+    it('should not let anyone else withdraw a bid', () => {
+      expect(() => withBid().furnisherWithdrawsBidOnChain(contractSig(outsiderKey), 0n)).toThrow('Bidder must sign to withdraw their bid')
+    })
+
+    it('should let a furnisher amend their bid', () => {
+      const escrow = withBid()
+
+      escrow.furnisherAmendsBidOnChain(furnisherSig, bid({ bidAmount: 4000n }), 0n)
+
+      expect(escrow.bids[0].bidAmount).toBe(4000n)
+    })
+
+    it('should not amend sealed bids', () => {
+      const escrow = withBid({}, { sealedBidding: { commitDeadline: HEIGHT + 100, revealDeadline: HEIGHT + 200 } })
+
+      expect(() => escrow.furnisherAmendsBidOnChain(furnisherSig, bid({ bidAmount: 4000n }), 0n)).toThrow('Sealed bids cannot be amended')
+    })
+
+    it('should let the approver reject a bid', () => {
+      const escrow = withBid()
+
+      escrow.rejectBidOnChain(EscrowContract.FURNISHER_APPROVAL_MODE_SEEKER, seekerSig, 0n)
+
+      expect(escrow.bids[0].furnisherKey).toBe(escrow.seekerKey)
+    })
+
+    it('should only take a rejection in the contract\'s approval mode', () => {
+      expect(() => withBid().rejectBidOnChain(EscrowContract.FURNISHER_APPROVAL_MODE_PLATFORM, platformSig, 0n)).toThrow('Execution failed')
+    })
+  })
+
+  describe('Deadlines', () => {
+    it('should let the seeker set a new deadline on a reopened contract', () => {
+      const escrow = contract()
+      escrow.workCompletionDeadline = 0n
+      spendContract(escrow, { value: 1n, lockTime: HEIGHT, outputs: stateOutput(1n) })
+
+      escrow.seekerExtendsWorkDeadlineOnChain(seekerSig, BigInt(HEIGHT + 1000)) // Extends from the cleared deadline
+
+      expect(escrow.workCompletionDeadline).toBe(BigInt(HEIGHT + 1000))
+    })
+
+    it('should not extend the deadline once work is submitted', () => {
+      const escrow = withAcceptedBid(contract(), EscrowContract.STATUS_WORK_SUBMITTED)
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT, outputs: stateOutput(5000n) })
+
+      expect(() => escrow.seekerExtendsWorkDeadlineOnChain(seekerSig, 100n)).toThrow('Execution failed')
+    })
+
+    it('should let the seeker reclaim abandoned work after the grace period', () => {
+      const reclaimed = withAcceptedBid(contract(), EscrowContract.STATUS_WORK_STARTED)
+      spendContract(reclaimed, { value: 5000n, lockTime: HEIGHT + 1145 })
+      const early = withAcceptedBid(contract(), EscrowContract.STATUS_WORK_STARTED)
+      spendContract(early, { value: 5000n, lockTime: HEIGHT + 1144 })
+
+      expect(() => reclaimed.seekerReclaimsAbandonedWorkOnChain(seekerSig)).not.toThrow()
+      expect(() => early.seekerReclaimsAbandonedWorkOnChain(seekerSig)).toThrow('Grace period after the deadline must have passed')
+    })
+  })
+
+  describe('Evidence', () => {
+    const inDispute = (): EscrowContract => {
+      const escrow = withAcceptedBid(contract(), EscrowContract.STATUS_DISPUTED_BY_FURNISHER)
+      escrow.disputeTime = BigInt(HEIGHT)
+      return escrow
+    }
+
+    it('should take each side\'s evidence once during the evidence period', () => {
+      const escrow = inDispute()
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT + 144, outputs: stateOutput(5000n) })
+
+      escrow.seekerSubmitsEvidenceOnChain(seekerSig, evidenceHash)
+
+      expect(escrow.seekerEvidenceHash).toBe(evidenceHash)
+      expect(() => escrow.seekerSubmitsEvidenceOnChain(seekerSig, evidenceHash)).toThrow('Seeker evidence has already been submitted')
+    })
+
+    it('should refuse evidence after the evidence period', () => {
+      const escrow = inDispute()
+      spendContract(escrow, { value: 5000n, lockTime: HEIGHT + 145, outputs: stateOutput(5000n) })
+
+      expect(() => escrow.furnisherSubmitsEvidenceOnChain(furnisherSig, evidenceHash)).toThrow('Evidence period has ended')
+    })
+  })
+})
+
 describe('Test Configuration', () => {
   describe('createWorkDeadline', () => {
     it('should create deadline in the future', () => {
@@ -454,7 +2190,12 @@ describe('Contract Constants', () => {
       'STATUS_WORK_SUBMITTED',
       'STATUS_RESOLVED',
       'STATUS_DISPUTED_BY_SEEKER',
-      'STATUS_DISPUTED_BY_FURNISHER'
+      'STATUS_DISPUTED_BY_FURNISHER',
+      'STATUS_PROVISIONALLY_RESOLVED',
+      'STATUS_APPEALED_BY_SEEKER',
+      'STATUS_APPEALED_BY_FURNISHER',
+      'STATUS_REVEALING_BIDS',
+      'STATUS_BIDS_REVEALED'
     ]
 
     statuses.forEach(status => {